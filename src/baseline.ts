@@ -0,0 +1,65 @@
+import * as vscode from 'vscode'
+import { ReviewFinding } from './review-finding'
+import { BASELINE_FILE_NAME } from './fingerprint-files'
+import { FingerprintEntry, FingerprintFileStore } from './fingerprint-store'
+
+/**
+ * ベースライン（既存の指摘のスナップショット）をワークスペースフォルダごとのファイルに保存する
+ * ベースラインに含まれる指摘は、新しい指摘と区別して扱う
+ */
+export class BaselineStore extends FingerprintFileStore<FingerprintEntry> {
+	constructor(OUTPUT: vscode.OutputChannel) {
+		super(BASELINE_FILE_NAME, 'findings', OUTPUT)
+	}
+
+	/**
+	 * レビュー結果をベースラインに記録する
+	 * 指定したファイルのベースラインは置き換え、それ以外のファイルのベースラインは残す
+	 * @returns 記録した指摘の数
+	 */
+	async create(
+		results: Array<{ uri: vscode.Uri; findings: ReviewFinding[] }>
+	): Promise<number> {
+		const updatedFolders = new Map<string, vscode.WorkspaceFolder>()
+		const newEntries = new Map<string, FingerprintEntry[]>()
+		const replacedFiles = new Map<string, Set<string>>()
+		let count = 0
+
+		for (const { uri, findings } of results) {
+			const location = this.locate(uri)
+			if (!location) {
+				continue
+			}
+			const key = location.folder.uri.toString()
+			updatedFolders.set(key, location.folder)
+			if (!replacedFiles.has(key)) {
+				replacedFiles.set(key, new Set())
+				newEntries.set(key, [])
+			}
+			replacedFiles.get(key)!.add(location.file)
+
+			// 同じ識別子の指摘は1つだけ記録する
+			const fingerprints = new Set<string>()
+			for (const finding of findings) {
+				const entry = this.toEntry(location.file, finding)
+				if (!fingerprints.has(entry.fingerprint)) {
+					fingerprints.add(entry.fingerprint)
+					newEntries.get(key)!.push(entry)
+					count++
+				}
+			}
+		}
+
+		for (const [key, folder] of updatedFolders) {
+			const files = replacedFiles.get(key)!
+			this._entriesByFolder.set(key, [
+				...(this._entriesByFolder.get(key) ?? []).filter(
+					(entry) => !files.has(entry.file)
+				),
+				...newEntries.get(key)!,
+			])
+			await this.save(folder)
+		}
+		return count
+	}
+}
@@ -0,0 +1,67 @@
+import {
+	ChatMessage,
+	ChatRequest,
+	createProvider,
+	readStreamingMessage,
+} from './llm-providers'
+import { ReviewSettings } from './review-settings'
+
+// ログの出力先（VS Code では出力チャネル、CLIでは標準エラー出力）
+export type ReviewLogger = (message: string) => void
+
+export interface ChatRequestOptions {
+	// Authorization ヘッダーに設定するAPIキー
+	apiKey?: string
+	// リクエストを中断するためのシグナル
+	signal?: AbortSignal
+	// ストリーミングでトークンを受信したときに、受信したトークン数（増分）を通知する
+	onTokens?: (count: number) => void
+	// ストリーミングで本文を受信したときに、受信した本文（増分）を通知する
+	onContent?: (text: string) => void
+}
+
+/**
+ * 設定されたLLMサーバにチャットのリクエストを送信し、モデルの応答を返す
+ * 通信エラーや中断は例外として呼び出し元に通知する
+ * @param description ログに出力するリクエストの説明
+ */
+export async function sendChatRequest(
+	settings: ReviewSettings,
+	request: Pick<
+		ChatRequest,
+		'messages' | 'tools' | 'toolChoice' | 'responseSchema'
+	>,
+	log: ReviewLogger,
+	description: string,
+	{ apiKey, signal, onTokens, onContent }: ChatRequestOptions = {}
+): Promise<ChatMessage | undefined> {
+	const provider = createProvider(settings.provider)
+	const { url, body } = provider.buildRequest(settings.baseUrl, {
+		model: settings.model,
+		threads: settings.threads,
+		temperature: 0,
+		stream: settings.stream,
+		...request,
+	})
+
+	log(`[llm-reviewer] ${description} (${settings.provider}: ${url})`)
+
+	const res = await fetch(url, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+			...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+			...settings.headers,
+		},
+		body: JSON.stringify(body),
+		signal,
+	})
+
+	if (!res.ok) {
+		throw new Error(`HTTP ${res.status} ${await res.text()}`)
+	}
+
+	return settings.stream
+		? await readStreamingMessage(res, provider, onTokens, onContent)
+		: provider.parseResponse(await res.json())
+}
@@ -0,0 +1,145 @@
+import { LineRange } from './line-ranges'
+
+// シンボルの範囲と子シンボル（DocumentSymbol / SymbolInformation の共通部分）
+export interface SymbolNode {
+	range: { start: { line: number }; end: { line: number } }
+	children: SymbolNode[]
+}
+
+/**
+ * テキストのトークン数を概算する（1トークン ≒ 4文字）
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4)
+}
+
+/**
+ * 行の配列をトークン数の上限以下のチャンク（行範囲）に分割する
+ * シンボルが指定されている場合はシンボルの境界で分割し、指定されていない場合は行単位で分割する
+ * @param maxTokens 1チャンクあたりのトークン数の上限（0以下の場合は分割しない）
+ */
+export function splitLinesIntoChunks(
+	lines: string[],
+	maxTokens: number,
+	symbols: SymbolNode[] = []
+): LineRange[] {
+	const wholeDocument = { startLine: 0, endLine: lines.length - 1 }
+	if (maxTokens <= 0 || estimateTokens(lines.join('\n')) <= maxTokens) {
+		return [wholeDocument]
+	}
+
+	// 改行分を含めた各行のトークン数
+	const lineTokens = lines.map((line) => estimateTokens(line + '\n'))
+	const splitter = new ChunkSplitter(lineTokens, maxTokens)
+	const segments =
+		symbols.length > 0
+			? splitter.splitBySymbols(symbols, wholeDocument)
+			: splitter.splitByLines(wholeDocument)
+	return splitter.pack(segments)
+}
+
+class ChunkSplitter {
+	constructor(
+		private readonly lineTokens: number[],
+		private readonly maxTokens: number
+	) {}
+
+	private tokensOf(range: LineRange): number {
+		let total = 0
+		for (let i = range.startLine; i <= range.endLine; i++) {
+			total += this.lineTokens[i]
+		}
+		return total
+	}
+
+	/**
+	 * シンボルの境界で範囲を分割する
+	 * 上限を超えるシンボルは子シンボルで、子シンボルがなければ行単位で分割する
+	 */
+	splitBySymbols(symbols: SymbolNode[], range: LineRange): LineRange[] {
+		const segments: LineRange[] = []
+		let cursor = range.startLine
+
+		const sorted = [...symbols].sort(
+			(a, b) => a.range.start.line - b.range.start.line
+		)
+		for (const symbol of sorted) {
+			const start = Math.max(symbol.range.start.line, cursor)
+			const end = Math.min(symbol.range.end.line, range.endLine)
+			// 範囲外のシンボルや、前のシンボルに含まれるシンボルは無視
+			if (start > end) {
+				continue
+			}
+			// シンボル間の行（import文など）
+			if (start > cursor) {
+				segments.push(
+					...this.splitByLines({
+						startLine: cursor,
+						endLine: start - 1,
+					})
+				)
+			}
+
+			const symbolRange = { startLine: start, endLine: end }
+			if (this.tokensOf(symbolRange) <= this.maxTokens) {
+				segments.push(symbolRange)
+			} else if (symbol.children.length > 0) {
+				segments.push(
+					...this.splitBySymbols(symbol.children, symbolRange)
+				)
+			} else {
+				segments.push(...this.splitByLines(symbolRange))
+			}
+			cursor = end + 1
+		}
+
+		if (cursor <= range.endLine) {
+			segments.push(
+				...this.splitByLines({
+					startLine: cursor,
+					endLine: range.endLine,
+				})
+			)
+		}
+		return segments
+	}
+
+	/**
+	 * 行単位で上限以下の範囲に分割する
+	 */
+	splitByLines(range: LineRange): LineRange[] {
+		const windows: LineRange[] = []
+		let start = range.startLine
+		let tokens = 0
+		for (let i = range.startLine; i <= range.endLine; i++) {
+			if (i > start && tokens + this.lineTokens[i] > this.maxTokens) {
+				windows.push({ startLine: start, endLine: i - 1 })
+				start = i
+				tokens = 0
+			}
+			tokens += this.lineTokens[i]
+		}
+		windows.push({ startLine: start, endLine: range.endLine })
+		return windows
+	}
+
+	/**
+	 * 隣接する小さな範囲を上限以下でまとめる
+	 */
+	pack(segments: LineRange[]): LineRange[] {
+		const chunks: LineRange[] = []
+		let tokens = 0
+		for (const segment of segments) {
+			const segmentTokens = this.tokensOf(segment)
+			const last = chunks[chunks.length - 1]
+			if (last && tokens + segmentTokens <= this.maxTokens) {
+				last.endLine = segment.endLine
+				tokens += segmentTokens
+			} else {
+				chunks.push({ ...segment })
+				tokens = segmentTokens
+			}
+		}
+		return chunks
+	}
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode'
+import { LineRange } from './line-ranges'
+import {
+	SymbolNode,
+	estimateTokens,
+	splitLinesIntoChunks,
+} from './chunk-splitter'
+
+/**
+ * ドキュメントをトークン数の上限以下のチャンク（行範囲）に分割する
+ * シンボル（関数・クラスなど）の境界で分割し、シンボルが取得できない場合は行単位で分割する
+ * @param maxTokens 1チャンクあたりのトークン数の上限（0以下の場合は分割しない）
+ */
+export async function splitDocumentIntoChunks(
+	doc: vscode.TextDocument,
+	maxTokens: number,
+	OUTPUT: vscode.OutputChannel
+): Promise<LineRange[]> {
+	if (maxTokens <= 0 || estimateTokens(doc.getText()) <= maxTokens) {
+		return [{ startLine: 0, endLine: doc.lineCount - 1 }]
+	}
+
+	const lines: string[] = []
+	for (let i = 0; i < doc.lineCount; i++) {
+		lines.push(doc.lineAt(i).text)
+	}
+	const symbols = await getDocumentSymbols(doc, OUTPUT)
+	const chunks = splitLinesIntoChunks(lines, maxTokens, symbols)
+
+	OUTPUT.appendLine(
+		`[llm-reviewer] ${doc.fileName} を${
+			chunks.length
+		}個のチャンクに分割しました（${
+			symbols.length > 0 ? 'シンボル単位' : '行単位'
+		}）`
+	)
+	return chunks
+}
+
+async function getDocumentSymbols(
+	doc: vscode.TextDocument,
+	OUTPUT: vscode.OutputChannel
+): Promise<SymbolNode[]> {
+	try {
+		const symbols = await vscode.commands.executeCommand<
+			(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined
+		>('vscode.executeDocumentSymbolProvider', doc.uri)
+		return (symbols ?? []).map(toSymbolNode)
+	} catch (error) {
+		OUTPUT.appendLine(`[llm-reviewer] シンボルの取得に失敗: ${error}`)
+		return []
+	}
+}
+
+function toSymbolNode(
+	symbol: vscode.DocumentSymbol | vscode.SymbolInformation
+): SymbolNode {
+	if ('children' in symbol) {
+		return {
+			range: symbol.range,
+			children: symbol.children.map(toSymbolNode),
+		}
+	}
+	// SymbolInformation は階層を持たない
+	return { range: symbol.location.range, children: [] }
+}
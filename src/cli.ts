@@ -0,0 +1,662 @@
+/**
+ * VS Code を使わずにレビューを実行するCLI（CIやpre-commitフック向け）
+ *
+ * 使い方:
+ *   llm-lint [オプション] <ファイル...>
+ *   llm-lint --diff [--base <ref>] [オプション] [ファイル...]
+ */
+import { execFile } from 'child_process'
+import { existsSync } from 'fs'
+import { readFile, writeFile } from 'fs/promises'
+import * as path from 'path'
+import { parseArgs, promisify } from 'util'
+import { splitLinesIntoChunks } from './chunk-splitter'
+import { ExportedFile, exportFindings } from './exporters'
+import { LineRange, isLineInRanges, parseUnifiedDiff } from './line-ranges'
+import { ReviewTarget, requestReview } from './review-core'
+import { EnsembleResult, mergeEnsembleFindings } from './ensemble'
+import {
+	ProjectRules,
+	RULES_FILE_NAMES,
+	parseProjectRules,
+	resolveRulesForFile,
+} from './project-rules'
+import {
+	FindingSeverity,
+	LocatedReviewItem,
+	createFingerprint,
+	dedupeFindings,
+} from './review-item'
+import { filterSuppressedFindings } from './suppressions'
+import { BASELINE_FILE_NAME, DISMISSED_FILE_NAME } from './fingerprint-files'
+import {
+	ReviewLanguage,
+	ReviewSettings,
+	expandEnsembleSettings,
+	getUrlOrigin,
+	resolveReviewLanguage,
+	resolveReviewSettings,
+} from './review-settings'
+import { SourceText } from './source-text'
+
+const execFileAsync = promisify(execFile)
+
+/**
+ * CLIが表示するメッセージ（llmLint.reviewLanguage の言語で表示する）
+ */
+interface CliMessages {
+	usage: string
+	unknownFormat: (format: string) => string
+	unknownSeverity: (severity: string) => string
+	noFilesSpecified: string
+	cannotReadConfig: (file: string, error: unknown) => string
+	rulesError: (error: string) => string
+	cannotReadFingerprints: (file: string, error: unknown) => string
+	noChanges: (file: string) => string
+	noTargetFiles: string
+	reviewing: (file: string) => string
+	reviewFailed: (file: string, error: unknown) => string
+	summary: (fileCount: number, counts: string) => string
+}
+
+const CLI_MESSAGES: Record<ReviewLanguage, CliMessages> = {
+	ja: {
+		usage: `使い方: llm-lint [オプション] <ファイル...>
+       llm-lint --diff [--base <ref>] [オプション] [ファイル...]
+
+オプション:
+  --diff               Gitの差分に含まれる変更箇所のみをレビューする
+                       ファイルを指定しない場合は、変更されたすべてのファイルが対象
+  --base <ref>         --diff の比較対象（既定: HEAD）
+  --config <path>      llmLint.* の設定を読み込むファイル（既定: .vscode/settings.json）
+  --rules <path>       プロジェクトのルールファイル（既定: .llmlint.json / .llmlint.yaml）
+  --format <format>    出力形式: text（既定）, sarif
+  --output <path>      結果を標準出力ではなくファイルに書き込む
+  --fail-on <severity> この重要度以上の指摘がある場合に終了コード1で終了する
+                       error（既定）, warning, info, hint, none
+  --include-baseline   ベースライン（${BASELINE_FILE_NAME}）に含まれる指摘も出力する
+  --verbose            LLMへのリクエストのログを標準エラー出力に表示する
+  -h, --help           このヘルプを表示する
+
+APIキーは環境変数 LLM_LINT_API_KEY で指定します（llmLint.baseUrl のサーバにのみ送信します）。`,
+		unknownFormat: (format) => `不明な出力形式です: ${format}`,
+		unknownSeverity: (severity) => `不明な重要度です: ${severity}`,
+		noFilesSpecified:
+			'レビューするファイルを指定するか、--diff を指定してください',
+		cannotReadConfig: (file, error) =>
+			`設定ファイルを読み込めません: ${file}: ${error}`,
+		rulesError: (error) => `[llm-lint] ルールファイルのエラー: ${error}`,
+		cannotReadFingerprints: (file, error) =>
+			`[llm-lint] ${file} を読み込めません: ${error}`,
+		noChanges: (file) => `[llm-lint] ${file} に変更箇所がありません`,
+		noTargetFiles: 'レビュー対象のファイルがありません',
+		reviewing: (file) => `[llm-lint] ${file} をレビュー中...`,
+		reviewFailed: (file, error) =>
+			`[llm-lint] ${file} のレビューに失敗: ${error}`,
+		summary: (fileCount, counts) =>
+			`[llm-lint] ${fileCount}件のファイル (${counts})`,
+	},
+	en: {
+		usage: `Usage: llm-lint [options] <files...>
+       llm-lint --diff [--base <ref>] [options] [files...]
+
+Options:
+  --diff               Review only the changed lines in the Git diff
+                       Reviews all changed files when no files are given
+  --base <ref>         Ref to compare with for --diff (default: HEAD)
+  --config <path>      File to read llmLint.* settings from (default: .vscode/settings.json)
+  --rules <path>       Project rules file (default: .llmlint.json / .llmlint.yaml)
+  --format <format>    Output format: text (default), sarif
+  --output <path>      Write the results to a file instead of stdout
+  --fail-on <severity> Exit with code 1 if there are findings of this severity or higher
+                       error (default), warning, info, hint, none
+  --include-baseline   Also output findings in the baseline (${BASELINE_FILE_NAME})
+  --verbose            Print the logs of the LLM requests to stderr
+  -h, --help           Show this help
+
+Set the API key in the LLM_LINT_API_KEY environment variable (it is only sent to the llmLint.baseUrl server).`,
+		unknownFormat: (format) => `Unknown output format: ${format}`,
+		unknownSeverity: (severity) => `Unknown severity: ${severity}`,
+		noFilesSpecified: 'Specify the files to review, or --diff',
+		cannotReadConfig: (file, error) =>
+			`Could not read the settings file: ${file}: ${error}`,
+		rulesError: (error) => `[llm-lint] Error in the rules file: ${error}`,
+		cannotReadFingerprints: (file, error) =>
+			`[llm-lint] Could not read ${file}: ${error}`,
+		noChanges: (file) => `[llm-lint] No changes in ${file}`,
+		noTargetFiles: 'No files to review',
+		reviewing: (file) => `[llm-lint] Reviewing ${file}...`,
+		reviewFailed: (file, error) =>
+			`[llm-lint] Failed to review ${file}: ${error}`,
+		summary: (fileCount, counts) =>
+			`[llm-lint] ${fileCount} file(s) (${counts})`,
+	},
+}
+
+// reviewLanguage が auto の場合に使用するOSのロケール
+const LOCALE = process.env.LC_ALL || process.env.LANG || 'en'
+
+// 重要度の高い順
+const SEVERITY_ORDER: FindingSeverity[] = ['ERROR', 'WARNING', 'INFO', 'HINT']
+
+// ファイルの拡張子とVS Code の言語IDの対応
+const LANGUAGE_IDS: Record<string, string> = {
+	'.js': 'javascript',
+	'.mjs': 'javascript',
+	'.cjs': 'javascript',
+	'.jsx': 'javascriptreact',
+	'.ts': 'typescript',
+	'.mts': 'typescript',
+	'.cts': 'typescript',
+	'.tsx': 'typescriptreact',
+	'.py': 'python',
+	'.java': 'java',
+	'.c': 'c',
+	'.h': 'c',
+	'.cc': 'cpp',
+	'.cpp': 'cpp',
+	'.cxx': 'cpp',
+	'.hpp': 'cpp',
+	'.cs': 'csharp',
+	'.rb': 'ruby',
+	'.go': 'go',
+	'.php': 'php',
+	'.swift': 'swift',
+	'.kt': 'kotlin',
+	'.kts': 'kotlin',
+	'.rs': 'rust',
+	'.scala': 'scala',
+	'.pl': 'perl',
+	'.dart': 'dart',
+	'.hs': 'haskell',
+	'.ex': 'elixir',
+	'.exs': 'elixir',
+	'.clj': 'clojure',
+	'.sh': 'shellscript',
+	'.bash': 'shellscript',
+	'.ps1': 'powershell',
+	'.m': 'objective-c',
+	'.groovy': 'groovy',
+	'.lua': 'lua',
+	'.coffee': 'coffeescript',
+	'.vue': 'vue',
+}
+
+interface CliOptions {
+	files: string[]
+	diff: boolean
+	base: string
+	config?: string
+	rules?: string
+	format: 'text' | 'sarif'
+	output?: string
+	failOn: FindingSeverity | 'NONE'
+	includeBaseline: boolean
+	verbose: boolean
+}
+
+/**
+ * コマンドライン引数を解析する
+ * @returns ヘルプを表示する場合は null
+ */
+function parseOptions(
+	argv: string[],
+	messages: CliMessages
+): CliOptions | null {
+	const { values, positionals } = parseArgs({
+		args: argv,
+		allowPositionals: true,
+		options: {
+			diff: { type: 'boolean', default: false },
+			base: { type: 'string', default: 'HEAD' },
+			config: { type: 'string' },
+			rules: { type: 'string' },
+			format: { type: 'string', default: 'text' },
+			output: { type: 'string' },
+			'fail-on': { type: 'string', default: 'error' },
+			'include-baseline': { type: 'boolean', default: false },
+			verbose: { type: 'boolean', default: false },
+			help: { type: 'boolean', short: 'h', default: false },
+		},
+	})
+	if (values.help) {
+		return null
+	}
+
+	const format = values.format!
+	if (format !== 'text' && format !== 'sarif') {
+		throw new Error(messages.unknownFormat(format))
+	}
+	const failOn = values['fail-on']!.toUpperCase()
+	if (
+		failOn !== 'NONE' &&
+		!SEVERITY_ORDER.includes(failOn as FindingSeverity)
+	) {
+		throw new Error(messages.unknownSeverity(values['fail-on']!))
+	}
+	if (!values.diff && positionals.length === 0) {
+		throw new Error(messages.noFilesSpecified)
+	}
+
+	return {
+		files: positionals,
+		diff: values.diff!,
+		base: values.base!,
+		config: values.config,
+		rules: values.rules,
+		format,
+		output: values.output,
+		failOn: failOn as CliOptions['failOn'],
+		includeBaseline: values['include-baseline']!,
+		verbose: values.verbose!,
+	}
+}
+
+/**
+ * 設定ファイル（VS Code の settings.json と同じ形式）から llmLint.* の設定を読み込む
+ * --config が指定されていない場合、.vscode/settings.json がなければ既定値を使用する
+ */
+async function loadSettings(
+	messages: CliMessages,
+	configPath?: string
+): Promise<ReviewSettings> {
+	const file = configPath ?? path.join('.vscode', 'settings.json')
+	let values: Record<string, unknown> = {}
+	if (configPath || existsSync(file)) {
+		try {
+			values = parseJsonc(await readFile(file, 'utf8')) as Record<
+				string,
+				unknown
+			>
+		} catch (error) {
+			throw new Error(messages.cannotReadConfig(file, error))
+		}
+	}
+	// reviewLanguage が auto の場合はOSのロケールに合わせる
+	return resolveReviewSettings(
+		<T>(key: string) => values[`llmLint.${key}`] as T | undefined,
+		LOCALE
+	)
+}
+
+/**
+ * コメントと末尾のカンマを許容してJSONを解析する（settings.json 用）
+ */
+function parseJsonc(text: string): unknown {
+	let result = ''
+	for (let i = 0; i < text.length; i++) {
+		const char = text[i]
+		if (char === '"') {
+			// 文字列リテラルはそのままコピーする
+			let end = i + 1
+			while (end < text.length && text[end] !== '"') {
+				end += text[end] === '\\' ? 2 : 1
+			}
+			result += text.slice(i, end + 1)
+			i = end
+		} else if (char === '/' && text[i + 1] === '/') {
+			const end = text.indexOf('\n', i)
+			i = end < 0 ? text.length : end - 1
+		} else if (char === '/' && text[i + 1] === '*') {
+			const end = text.indexOf('*/', i + 2)
+			i = end < 0 ? text.length : end + 1
+		} else {
+			result += char
+		}
+	}
+	return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'))
+}
+
+/**
+ * プロジェクトのルールファイルを読み込む
+ * --rules が指定されていない場合は、カレントディレクトリのルールファイルを探す
+ * @returns ルールとルールファイルのあるディレクトリ。ルールファイルがない場合は undefined
+ */
+async function loadProjectRules(
+	messages: CliMessages,
+	rulesPath?: string
+): Promise<{ rules: ProjectRules; baseDir: string } | undefined> {
+	const file = rulesPath ?? RULES_FILE_NAMES.find((name) => existsSync(name))
+	if (!file) {
+		return undefined
+	}
+	const { rules, errors } = parseProjectRules(
+		await readFile(file, 'utf8'),
+		path.basename(file)
+	)
+	for (const error of errors) {
+		console.error(messages.rulesError(error))
+	}
+	return { rules, baseDir: path.dirname(path.resolve(file)) }
+}
+
+/**
+ * VS Code で記録した指摘（.llmlint-dismissed.json / .llmlint-baseline.json）を読み込む
+ * @param listKey ファイル内で指摘の配列を保持するキー
+ * @returns 「ファイルの相対パス + 識別子」の集合
+ */
+async function loadFingerprints(
+	fileName: string,
+	listKey: string,
+	messages: CliMessages
+): Promise<Set<string>> {
+	const fingerprints = new Set<string>()
+	if (!existsSync(fileName)) {
+		return fingerprints
+	}
+	try {
+		const data = JSON.parse(await readFile(fileName, 'utf8')) as Record<
+			string,
+			Array<{ file: string; fingerprint: string }> | undefined
+		>
+		for (const entry of data[listKey] ?? []) {
+			fingerprints.add(`${entry.file}\0${entry.fingerprint}`)
+		}
+	} catch (error) {
+		console.error(messages.cannotReadFingerprints(fileName, error))
+	}
+	return fingerprints
+}
+
+async function git(args: string[]): Promise<string> {
+	const { stdout } = await execFileAsync('git', args, {
+		maxBuffer: 64 * 1024 * 1024,
+	})
+	return stdout
+}
+
+/**
+ * 差分に含まれるファイル（未追跡ファイルを含む）を取得する
+ */
+async function getChangedFiles(base: string): Promise<string[]> {
+	const changed = await git([
+		'diff',
+		'--name-only',
+		'--relative',
+		'--diff-filter=d',
+		base,
+		'--',
+	])
+	const untracked = await git(['ls-files', '--others', '--exclude-standard'])
+	return [...new Set([...changed.split('\n'), ...untracked.split('\n')])]
+		.map((file) => file.trim())
+		.filter((file) => file && LANGUAGE_IDS[path.extname(file)])
+		.sort()
+}
+
+/**
+ * ファイルの変更行の範囲を取得する
+ * 未追跡ファイルはファイル全体を変更箇所として扱う
+ */
+async function getChangedRanges(
+	file: string,
+	base: string,
+	lineCount: number
+): Promise<LineRange[]> {
+	const tracked = await git(['ls-files', '--', file])
+	if (!tracked.trim()) {
+		return [{ startLine: 0, endLine: Math.max(0, lineCount - 1) }]
+	}
+	return parseUnifiedDiff(
+		await git(['diff', '-U0', base, '--', file]),
+		lineCount
+	)
+}
+
+async function reviewFile(
+	file: string,
+	options: CliOptions,
+	settings: ReviewSettings,
+	projectRules: { rules: ProjectRules; baseDir: string } | undefined,
+	log: (message: string) => void,
+	messages: CliMessages
+): Promise<LocatedReviewItem[]> {
+	const source = new SourceText(
+		file,
+		LANGUAGE_IDS[path.extname(file)] ?? 'plaintext',
+		await readFile(file, 'utf8')
+	)
+	const apiKey = process.env.LLM_LINT_API_KEY
+	const rules = projectRules
+		? resolveRulesForFile(
+				projectRules.rules,
+				path.relative(projectRules.baseDir, path.resolve(file)),
+				source.languageId
+		  )
+		: undefined
+
+	let targets: ReviewTarget[]
+	let changedRanges: LineRange[] | undefined
+	if (options.diff) {
+		changedRanges = await getChangedRanges(
+			file,
+			options.base,
+			source.lineCount
+		)
+		if (changedRanges.length === 0) {
+			log(messages.noChanges(file))
+			return []
+		}
+		targets = [{ changedRanges }]
+	} else {
+		const lines: string[] = []
+		for (let i = 0; i < source.lineCount; i++) {
+			lines.push(source.lineAt(i))
+		}
+		const chunks = splitLinesIntoChunks(lines, settings.maxChunkTokens)
+		targets = chunks.map((chunk) => ({
+			// 分割されていない場合はファイル全体としてレビューする
+			chunk: chunks.length > 1 ? chunk : undefined,
+		}))
+	}
+
+	// アンサンブルの場合は、モデルごとに順番にレビューして指摘をまとめる
+	const members = expandEnsembleSettings(settings)
+	const results: EnsembleResult<LocatedReviewItem>[] = []
+	for (const member of members) {
+		// APIキーは llmLint.baseUrl と同じオリジンのサーバにのみ送信する
+		const memberApiKey =
+			getUrlOrigin(member.settings.baseUrl) ===
+			getUrlOrigin(settings.baseUrl)
+				? apiKey
+				: undefined
+		const findings: LocatedReviewItem[] = []
+		for (const target of targets) {
+			findings.push(
+				...(await requestReview(source, member.settings, log, {
+					...target,
+					apiKey: memberApiKey,
+					rules,
+				}))
+			)
+		}
+		results.push({ model: member.name, findings: dedupeFindings(findings) })
+	}
+	const findings =
+		members.length === 1
+			? results[0].findings
+			: mergeEnsembleFindings(results, settings.minAgreement)
+
+	// 位置を特定できなかった指摘は変更箇所に含まれるか判断できないため除外する
+	return filterSuppressedFindings(
+		changedRanges
+			? findings.filter(
+					(finding) =>
+						finding.range !== undefined &&
+						isLineInRanges(finding.range.start.line, changedRanges!)
+			  )
+			: findings,
+		source.text
+	)
+}
+
+/**
+ * コンパイラと同じ「ファイル:行:列: 重要度: 内容」の形式で出力する
+ */
+function formatText(files: ExportedFile[]): string {
+	const lines: string[] = []
+	for (const file of files) {
+		for (const finding of file.findings) {
+			const location = finding.range
+				? `${file.path}:${finding.range.start.line + 1}:${
+						finding.range.start.character + 1
+				  }`
+				: file.path
+			lines.push(
+				`${location}: ${finding.severity.toLowerCase()}: ${finding.message.replace(
+					/\s*\n\s*/g,
+					' '
+				)}${formatAnnotations(finding)}`
+			)
+		}
+	}
+	return lines.length > 0 ? lines.join('\n') + '\n' : ''
+}
+
+/**
+ * 検証の確信度とアンサンブルで報告したモデルを指摘の後ろに添える
+ */
+function formatAnnotations(finding: LocatedReviewItem): string {
+	const annotations = [
+		...(finding.confidence !== undefined
+			? [`confidence: ${Math.round(finding.confidence * 100)}%`]
+			: []),
+		...(finding.agreedModels
+			? [`models: ${finding.agreedModels.join(', ')}`]
+			: []),
+	]
+	return annotations.length > 0 ? ` (${annotations.join(', ')})` : ''
+}
+
+async function main(argv: string[]): Promise<number> {
+	// 設定を読み込むまでは、OSのロケールに合わせた言語で表示する
+	let messages = CLI_MESSAGES[resolveReviewLanguage('auto', LOCALE)]
+	let options: CliOptions | null
+	try {
+		options = parseOptions(argv, messages)
+	} catch (error) {
+		console.error(error instanceof Error ? error.message : error)
+		console.error(messages.usage)
+		return 2
+	}
+	if (!options) {
+		console.log(messages.usage)
+		return 0
+	}
+
+	const settings = await loadSettings(messages, options.config)
+	messages = CLI_MESSAGES[settings.language]
+	const projectRules = await loadProjectRules(messages, options.rules)
+	// 非表示にした指摘と、ベースラインに含まれる指摘は出力しない
+	const excluded = await loadFingerprints(
+		DISMISSED_FILE_NAME,
+		'dismissed',
+		messages
+	)
+	if (!options.includeBaseline) {
+		for (const key of await loadFingerprints(
+			BASELINE_FILE_NAME,
+			'findings',
+			messages
+		)) {
+			excluded.add(key)
+		}
+	}
+	const log = (message: string) => {
+		if (options?.verbose) {
+			console.error(message)
+		}
+	}
+
+	const files =
+		options.files.length > 0
+			? options.files
+			: await getChangedFiles(options.base)
+	if (files.length === 0) {
+		console.error(messages.noTargetFiles)
+		return 0
+	}
+
+	const results: ExportedFile[] = []
+	let failedCount = 0
+	for (const file of files) {
+		try {
+			console.error(messages.reviewing(file))
+			const findings = await reviewFile(
+				file,
+				options,
+				settings,
+				projectRules,
+				log,
+				messages
+			)
+			const relativePath = path
+				.relative(process.cwd(), file)
+				.replace(/\\/g, '/')
+			const inWorkspace = !relativePath.startsWith('..')
+			results.push({
+				path: inWorkspace ? relativePath : path.resolve(file),
+				inWorkspace,
+				findings: findings.filter(
+					(finding) =>
+						!excluded.has(
+							`${relativePath}\0${createFingerprint(finding)}`
+						)
+				),
+			})
+		} catch (error) {
+			failedCount++
+			console.error(messages.reviewFailed(file, error))
+		}
+	}
+
+	const output =
+		options.format === 'sarif'
+			? exportFindings('sarif', results, settings.language)
+			: formatText(results)
+	if (options.output) {
+		await writeFile(options.output, output, 'utf8')
+	} else {
+		process.stdout.write(output)
+	}
+
+	const counts = SEVERITY_ORDER.map(
+		(severity) =>
+			`${severity}: ${
+				results
+					.flatMap((file) => file.findings)
+					.filter((finding) => finding.severity === severity).length
+			}`
+	)
+	console.error(messages.summary(results.length, counts.join(', ')))
+
+	if (failedCount > 0) {
+		return 2
+	}
+	const failOn = options.failOn
+	if (failOn !== 'NONE') {
+		const threshold = SEVERITY_ORDER.indexOf(failOn)
+		const failed = results.some((file) =>
+			file.findings.some(
+				(finding) =>
+					SEVERITY_ORDER.indexOf(finding.severity) <= threshold
+			)
+		)
+		if (failed) {
+			return 1
+		}
+	}
+	return 0
+}
+
+main(process.argv.slice(2)).then(
+	(code) => {
+		process.exitCode = code
+	},
+	(error) => {
+		console.error(
+			`[llm-lint] ${error instanceof Error ? error.message : error}`
+		)
+		process.exitCode = 2
+	}
+)
@@ -0,0 +1,125 @@
+import * as vscode from 'vscode'
+import { ReviewFinding } from './review-finding'
+import { DISMISSED_FILE_NAME } from './fingerprint-files'
+import { FingerprintEntry, FingerprintFileStore } from './fingerprint-store'
+import { codeFence } from './exporters'
+
+/**
+ * 非表示にした指摘
+ */
+export interface DismissedFinding extends FingerprintEntry {
+	dismissedAt: string
+}
+
+/**
+ * 非表示にした指摘をワークスペースフォルダごとのファイルに保存する
+ */
+export class DismissedFindingsStore extends FingerprintFileStore<DismissedFinding> {
+	constructor(OUTPUT: vscode.OutputChannel) {
+		super(DISMISSED_FILE_NAME, 'dismissed', OUTPUT)
+	}
+
+	/**
+	 * 非表示にした指摘を取り除く
+	 */
+	filterFindings(
+		uri: vscode.Uri,
+		findings: ReviewFinding[]
+	): ReviewFinding[] {
+		const isDismissed = this.matcher(uri)
+		return findings.filter((finding) => !isDismissed(finding))
+	}
+
+	async dismiss(uri: vscode.Uri, finding: ReviewFinding): Promise<void> {
+		const location = this.locate(uri)
+		if (!location) {
+			throw new Error(
+				vscode.l10n.t(
+					'Findings in files outside the workspace cannot be dismissed'
+				)
+			)
+		}
+		if (this.matcher(uri)(finding)) {
+			return
+		}
+		const key = location.folder.uri.toString()
+		const dismissed = this._entriesByFolder.get(key) ?? []
+		dismissed.push({
+			...this.toEntry(location.file, finding),
+			dismissedAt: new Date().toISOString(),
+		})
+		this._entriesByFolder.set(key, dismissed)
+		await this.save(location.folder)
+	}
+
+	async restore(
+		folder: vscode.WorkspaceFolder,
+		entry: DismissedFinding
+	): Promise<void> {
+		const key = folder.uri.toString()
+		const dismissed = (this._entriesByFolder.get(key) ?? []).filter(
+			(e) =>
+				!(e.file === entry.file && e.fingerprint === entry.fingerprint)
+		)
+		this._entriesByFolder.set(key, dismissed)
+		await this.save(folder)
+	}
+}
+
+// 非表示にした指摘の一覧のTreeViewアイテム
+export class DismissedItem extends vscode.TreeItem {
+	constructor(
+		readonly folder: vscode.WorkspaceFolder,
+		readonly entry: DismissedFinding
+	) {
+		super(
+			`[${entry.severity}] ${entry.message.replace(/\s*\n\s*/g, ' ')}`,
+			vscode.TreeItemCollapsibleState.None
+		)
+		this.description = entry.file
+		const tooltip = new vscode.MarkdownString().appendText(entry.message)
+		if (entry.codeSnippet) {
+			// コードに含まれるバッククォートでブロックが途中で閉じないよう、区切りを長くする
+			const fence = codeFence(entry.codeSnippet)
+			tooltip.appendMarkdown(
+				`\n${fence}\n${entry.codeSnippet}\n${fence}\n`
+			)
+		}
+		this.tooltip = tooltip
+		this.contextValue = 'dismissedFinding'
+		this.iconPath = new vscode.ThemeIcon('eye-closed')
+		this.command = {
+			title: vscode.l10n.t('Open File'),
+			command: 'vscode.open',
+			arguments: [vscode.Uri.joinPath(folder.uri, entry.file)],
+		}
+	}
+}
+
+/**
+ * 非表示にした指摘の一覧を表示するTreeViewのデータプロバイダー
+ */
+export class DismissedTreeDataProvider
+	implements vscode.TreeDataProvider<DismissedItem>
+{
+	readonly onDidChangeTreeData: vscode.Event<void>
+
+	constructor(private readonly store: DismissedFindingsStore) {
+		this.onDidChangeTreeData = store.onDidChange
+	}
+
+	getTreeItem(element: DismissedItem): vscode.TreeItem {
+		return element
+	}
+
+	getChildren(element?: DismissedItem): DismissedItem[] {
+		if (element) {
+			return []
+		}
+		return this.store
+			.getAll()
+			.flatMap(({ folder, entries }) =>
+				entries.map((entry) => new DismissedItem(folder, entry))
+			)
+	}
+}
@@ -0,0 +1,145 @@
+/**
+ * 複数のモデルによるレビュー結果のとりまとめ
+ * 同じ箇所の同じ問題を指す指摘を1つにまとめ、報告したモデルの数で絞り込む
+ */
+
+import {
+	FindingSeverity,
+	LocatedReviewItem,
+	normalizeCode,
+} from './review-item'
+import { TextPosition, TextRange } from './source-text'
+
+// 同じ箇所を指す指摘を、同じ問題とみなす指摘内容の類似度の下限
+const MIN_MESSAGE_SIMILARITY = 0.2
+// 位置が特定できない指摘を、同じ問題とみなす指摘内容の類似度の下限
+const MIN_UNLOCATED_MESSAGE_SIMILARITY = 0.5
+
+const SEVERITY_RANK: Record<FindingSeverity, number> = {
+	ERROR: 3,
+	WARNING: 2,
+	INFO: 1,
+	HINT: 0,
+}
+
+/**
+ * 1つのモデルのレビュー結果
+ */
+export interface EnsembleResult<T extends LocatedReviewItem> {
+	model: string
+	findings: T[]
+}
+
+/**
+ * 各モデルの指摘のうち同じ箇所の同じ問題を指すものを1つにまとめ、報告したモデルを記録する
+ * まとめた指摘は最も重要度の高い指摘（同じ場合は先に設定されたモデルの指摘）の内容を使用する
+ * @param minAgreement この数以上のモデルが報告した指摘のみを残す（モデルの数を上限とする）
+ */
+export function mergeEnsembleFindings<T extends LocatedReviewItem>(
+	results: EnsembleResult<T>[],
+	minAgreement: number
+): T[] {
+	const clusters: Array<Array<{ model: string; finding: T }>> = []
+	for (const { model, findings } of results) {
+		for (const finding of findings) {
+			// 同じモデルの指摘は別の問題として扱い、最も似ている指摘のまとまりに加える
+			let bestCluster: (typeof clusters)[number] | undefined
+			let bestScore = -1
+			for (const cluster of clusters) {
+				if (cluster.some((member) => member.model === model)) {
+					continue
+				}
+				const score = Math.max(
+					...cluster.map((member) =>
+						matchScore(member.finding, finding)
+					)
+				)
+				if (score > bestScore) {
+					bestCluster = cluster
+					bestScore = score
+				}
+			}
+			if (bestCluster && bestScore >= 0) {
+				bestCluster.push({ model, finding })
+			} else {
+				clusters.push([{ model, finding }])
+			}
+		}
+	}
+
+	const required = Math.min(minAgreement, results.length)
+	return clusters
+		.filter((cluster) => cluster.length >= required)
+		.map((cluster) => {
+			const representative = cluster.reduce((best, member) =>
+				SEVERITY_RANK[member.finding.severity] >
+				SEVERITY_RANK[best.finding.severity]
+					? member
+					: best
+			)
+			return {
+				...representative.finding,
+				agreedModels: cluster.map((member) => member.model),
+			}
+		})
+}
+
+/**
+ * 2つの指摘が同じ箇所の同じ問題を指す場合は指摘内容の類似度（0〜1）、そうでなければ -1 を返す
+ */
+function matchScore(a: LocatedReviewItem, b: LocatedReviewItem): number {
+	const similarity = messageSimilarity(a.message, b.message)
+	const sameLocation =
+		a.range && b.range
+			? rangesOverlap(a.range, b.range)
+			: !!a.codeSnippet &&
+			  !!b.codeSnippet &&
+			  normalizeCode(a.codeSnippet) === normalizeCode(b.codeSnippet)
+	if (sameLocation) {
+		return similarity >= MIN_MESSAGE_SIMILARITY ? similarity : -1
+	}
+	// 位置が特定できない指摘は、指摘内容が十分に似ている場合のみ同じ問題とみなす
+	if (!a.range || !b.range) {
+		return similarity >= MIN_UNLOCATED_MESSAGE_SIMILARITY ? similarity : -1
+	}
+	return -1
+}
+
+function rangesOverlap(a: TextRange, b: TextRange): boolean {
+	return (
+		comparePositions(a.start, b.end) <= 0 &&
+		comparePositions(b.start, a.end) <= 0
+	)
+}
+
+function comparePositions(a: TextPosition, b: TextPosition): number {
+	return a.line - b.line || a.character - b.character
+}
+
+/**
+ * 指摘内容の類似度（文字バイグラムのDice係数）
+ * 単語を空白で区切らない日本語の指摘にも使えるよう、文字単位で比較する
+ */
+function messageSimilarity(a: string, b: string): number {
+	const bigramsA = toBigrams(a)
+	const bigramsB = toBigrams(b)
+	if (bigramsA.size === 0 || bigramsB.size === 0) {
+		return 0
+	}
+	let shared = 0
+	for (const bigram of bigramsA) {
+		if (bigramsB.has(bigram)) {
+			shared++
+		}
+	}
+	return (2 * shared) / (bigramsA.size + bigramsB.size)
+}
+
+function toBigrams(text: string): Set<string> {
+	const normalized = text.toLowerCase().replace(/\s+/g, '')
+	const bigrams = new Set<string>()
+	for (let i = 0; i < normalized.length - 1; i++) {
+		bigrams.add(normalized.slice(i, i + 2))
+	}
+	return bigrams
+}
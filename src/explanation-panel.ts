@@ -0,0 +1,373 @@
+import * as vscode from 'vscode'
+import { randomBytes } from 'crypto'
+import {
+	ExplanationMessage,
+	createExplanationRequest,
+} from './finding-explanation'
+import { getReviewSettings, requestLLMExplanation } from './llm-client'
+import { ReviewFinding } from './review-finding'
+import { createFingerprint } from './review-item'
+import { SourceText } from './source-text'
+
+/**
+ * 指摘ごとの会話
+ * パネルを閉じても会話は保持し、同じ指摘をもう一度開いたときに続きから表示する
+ */
+interface ExplanationSession {
+	uri: vscode.Uri
+	finding: ReviewFinding
+	// 最初の説明の依頼から始まる会話
+	thread: ExplanationMessage[]
+	panel?: vscode.WebviewPanel
+	// パネルのスクリプトが読み込まれ、メッセージを受け取れるようになったときに解決する
+	ready?: Promise<void>
+	// 回答を生成中のリクエストを中断するためのコントローラー
+	pending?: AbortController
+}
+
+// パネルからのメッセージ
+type PanelRequest =
+	| { type: 'ready' }
+	| { type: 'ask'; text: string }
+	| { type: 'stop' }
+
+/**
+ * 指摘について質問できる会話パネル
+ * 指摘・該当箇所のコード・ファイルの内容をもとにモデルが説明し、続けて質問できる
+ * 会話は指摘ごとに、VS Code を終了するまで保持する
+ */
+export class ExplanationPanelManager implements vscode.Disposable {
+	private readonly _sessions = new Map<string, ExplanationSession>()
+
+	constructor(private readonly _output: vscode.OutputChannel) {}
+
+	/**
+	 * 指摘の会話パネルを表示する（初めて開く指摘の場合は説明をリクエストする）
+	 */
+	async show(uri: vscode.Uri, finding: ReviewFinding): Promise<void> {
+		const key = `${uri.toString()}#${createFingerprint(finding)}`
+		let session = this._sessions.get(key)
+		if (!session) {
+			const doc = await vscode.workspace.openTextDocument(uri)
+			const source = new SourceText(
+				doc.fileName,
+				doc.languageId,
+				doc.getText()
+			)
+			session = {
+				uri,
+				finding,
+				thread: [
+					createExplanationRequest(
+						finding,
+						source,
+						getReviewSettings(uri)
+					),
+				],
+			}
+			this._sessions.set(key, session)
+		}
+
+		if (session.panel) {
+			session.panel.reveal()
+			return
+		}
+		session.panel = await this.createPanel(session)
+		// 回答を受け取る前に閉じた質問は、もう一度リクエストする
+		if (
+			!session.pending &&
+			session.thread[session.thread.length - 1].role === 'user'
+		) {
+			await this.answer(session)
+		}
+	}
+
+	private async createPanel(
+		session: ExplanationSession
+	): Promise<vscode.WebviewPanel> {
+		const panel = vscode.window.createWebviewPanel(
+			'llmReviewerExplanation',
+			vscode.l10n.t(
+				'Explain: {0}',
+				truncate(session.finding.message.replace(/\s+/g, ' '), 40)
+			),
+			{ viewColumn: vscode.ViewColumn.Beside, preserveFocus: false },
+			{ enableScripts: true, retainContextWhenHidden: true }
+		)
+		let resolveReady: () => void
+		session.ready = new Promise((resolve) => (resolveReady = resolve))
+		panel.webview.onDidReceiveMessage(async (request: PanelRequest) => {
+			if (request.type === 'ready') {
+				resolveReady()
+				return
+			}
+			if (request.type === 'stop') {
+				session.pending?.abort()
+				return
+			}
+			const text = request.text.trim()
+			if (!text || session.pending) {
+				return
+			}
+			session.thread.push({ role: 'user', content: text })
+			await this.answer(session)
+		})
+		panel.onDidDispose(() => {
+			// 会話は保持し、生成中の回答のみ中断する
+			session.pending?.abort()
+			session.panel = undefined
+			session.ready = undefined
+			resolveReady()
+		})
+		panel.webview.html = await this.renderHtml(session)
+		return panel
+	}
+
+	/**
+	 * 会話の最後の質問に対する回答をリクエストし、受信した本文を順にパネルに表示する
+	 * 中断・失敗した場合は、最初の説明の依頼を除いて質問を会話から取り除く
+	 */
+	private async answer(session: ExplanationSession): Promise<void> {
+		const controller = new AbortController()
+		session.pending = controller
+		await session.ready
+		const post = (message: object) =>
+			session.panel?.webview.postMessage(message)
+		post({ type: 'start' })
+		try {
+			const content = await requestLLMExplanation(
+				session.uri,
+				session.thread,
+				this._output,
+				{
+					signal: controller.signal,
+					onContent: (text) => post({ type: 'delta', text }),
+				}
+			)
+			session.thread.push({ role: 'assistant', content })
+			post({ type: 'done', html: await renderMarkdown(content) })
+		} catch (e) {
+			const question =
+				session.thread.length > 1 ? session.thread.pop() : undefined
+			if (controller.signal.aborted) {
+				this._output.appendLine(
+					'[llm-reviewer] 指摘の説明を中断しました'
+				)
+				post({ type: 'cancelled', question: question?.content })
+			} else {
+				this._output.appendLine(
+					`[llm-reviewer] 指摘の説明に失敗しました: ${e}`
+				)
+				post({
+					type: 'error',
+					message: vscode.l10n.t(
+						'Could not get an explanation: {0}',
+						e instanceof Error ? e.message : String(e)
+					),
+					question: question?.content,
+				})
+			}
+		} finally {
+			session.pending = undefined
+		}
+	}
+
+	private async renderHtml(session: ExplanationSession): Promise<string> {
+		const nonce = randomBytes(16).toString('hex')
+		const { finding } = session
+		const location = finding.range
+			? `${vscode.workspace.asRelativePath(session.uri, false)}:${
+					finding.range.start.line + 1
+			  }`
+			: vscode.workspace.asRelativePath(session.uri, false)
+		// 最初の説明の依頼はパネルには表示しない
+		const history: string[] = []
+		for (const message of session.thread.slice(1)) {
+			history.push(
+				`<div class="message ${message.role}">${
+					message.role === 'assistant'
+						? await renderMarkdown(message.content)
+						: escapeHtml(message.content)
+				}</div>`
+			)
+		}
+		const strings = {
+			thinking: vscode.l10n.t('Thinking...'),
+			cancelled: vscode.l10n.t('Stopped'),
+		}
+
+		return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'nonce-${nonce}'; script-src 'nonce-${nonce}';">
+<style nonce="${nonce}">
+	body { font-family: var(--vscode-font-family); font-size: var(--vscode-font-size); padding: 0 12px 96px; }
+	.finding { border-left: 3px solid var(--vscode-editorWarning-foreground); padding: 4px 12px; margin: 12px 0; background: var(--vscode-textBlockQuote-background); }
+	.finding .meta { color: var(--vscode-descriptionForeground); }
+	pre { background: var(--vscode-textCodeBlock-background); padding: 8px; overflow-x: auto; white-space: pre-wrap; }
+	code { font-family: var(--vscode-editor-font-family); }
+	.message { margin: 12px 0; }
+	.message.user { padding: 6px 10px; border-radius: 4px; background: var(--vscode-input-background); white-space: pre-wrap; }
+	.message.streaming, .markdown.plain { white-space: pre-wrap; }
+	.message.error { color: var(--vscode-errorForeground); }
+	.message.status { color: var(--vscode-descriptionForeground); font-style: italic; }
+	form { position: fixed; left: 0; right: 0; bottom: 0; display: flex; gap: 6px; padding: 8px 12px; background: var(--vscode-editor-background); }
+	textarea { flex: 1; resize: none; font-family: inherit; color: var(--vscode-input-foreground); background: var(--vscode-input-background); border: 1px solid var(--vscode-input-border, transparent); }
+	button { color: var(--vscode-button-foreground); background: var(--vscode-button-background); border: none; padding: 4px 12px; }
+	button:hover { background: var(--vscode-button-hoverBackground); }
+</style>
+</head>
+<body>
+<div class="finding">
+	<p><strong>[${escapeHtml(finding.severity)}]</strong> ${escapeHtml(
+			finding.message
+		)}</p>
+	<p class="meta">${escapeHtml(location)}</p>
+	${
+		finding.codeSnippet
+			? `<pre><code>${escapeHtml(finding.codeSnippet)}</code></pre>`
+			: ''
+	}
+</div>
+<div id="messages">
+${history.join('\n')}
+</div>
+<form id="form">
+	<textarea id="question" rows="2" placeholder="${escapeHtml(
+		vscode.l10n.t('Ask a follow-up question (Ctrl+Enter to send)')
+	)}"></textarea>
+	<button id="send" type="submit">${escapeHtml(vscode.l10n.t('Send'))}</button>
+	<button id="stop" type="button" hidden>${escapeHtml(
+		vscode.l10n.t('Stop')
+	)}</button>
+</form>
+<script nonce="${nonce}">
+	const vscode = acquireVsCodeApi()
+	const strings = ${JSON.stringify(strings)}
+	const messages = document.getElementById('messages')
+	const form = document.getElementById('form')
+	const question = document.getElementById('question')
+	const send = document.getElementById('send')
+	const stop = document.getElementById('stop')
+	let current
+
+	function append(className, text) {
+		const element = document.createElement('div')
+		element.className = 'message ' + className
+		element.textContent = text
+		messages.appendChild(element)
+		window.scrollTo(0, document.body.scrollHeight)
+		return element
+	}
+
+	function setBusy(busy) {
+		send.hidden = busy
+		stop.hidden = !busy
+	}
+
+	// 回答を受け取る前に中断・失敗した質問は入力欄に戻す
+	function restoreQuestion(text) {
+		const last = messages.lastElementChild
+		if (text !== undefined && last && last.classList.contains('user')) {
+			last.remove()
+			question.value = text
+		}
+	}
+
+	form.addEventListener('submit', (event) => {
+		event.preventDefault()
+		const text = question.value.trim()
+		if (!text || !stop.hidden) {
+			return
+		}
+		append('user', text)
+		question.value = ''
+		vscode.postMessage({ type: 'ask', text })
+	})
+	question.addEventListener('keydown', (event) => {
+		if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+			form.requestSubmit()
+		}
+	})
+	stop.addEventListener('click', () => vscode.postMessage({ type: 'stop' }))
+	vscode.postMessage({ type: 'ready' })
+
+	window.addEventListener('message', (event) => {
+		const message = event.data
+		switch (message.type) {
+			case 'start':
+				current = append('assistant streaming status', strings.thinking)
+				current.dataset.empty = 'true'
+				setBusy(true)
+				break
+			case 'delta':
+				if (current.dataset.empty) {
+					current.textContent = ''
+					current.classList.remove('status')
+					delete current.dataset.empty
+				}
+				current.textContent += message.text
+				window.scrollTo(0, document.body.scrollHeight)
+				break
+			case 'done':
+				current.className = 'message assistant'
+				current.innerHTML = message.html
+				setBusy(false)
+				break
+			case 'cancelled':
+				current.remove()
+				restoreQuestion(message.question)
+				append('status', strings.cancelled)
+				setBusy(false)
+				break
+			case 'error':
+				current.remove()
+				restoreQuestion(message.question)
+				append('error', message.message)
+				setBusy(false)
+				break
+		}
+	})
+</script>
+</body>
+</html>`
+	}
+
+	dispose(): void {
+		for (const session of this._sessions.values()) {
+			session.panel?.dispose()
+		}
+		this._sessions.clear()
+	}
+}
+
+/**
+ * Markdown を HTML に変換する（組み込みの Markdown 拡張機能を使用し、使用できない場合はそのまま表示する）
+ */
+async function renderMarkdown(text: string): Promise<string> {
+	try {
+		const html = await vscode.commands.executeCommand<string>(
+			'markdown.api.render',
+			text
+		)
+		if (typeof html === 'string') {
+			return html
+		}
+	} catch {
+		// 変換できない場合はそのまま表示する
+	}
+	return `<div class="markdown plain">${escapeHtml(text)}</div>`
+}
+
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+function truncate(text: string, maxLength: number): string {
+	return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
@@ -0,0 +1,304 @@
+import { FindingSeverity, LocatedReviewItem } from './review-item'
+import { ReviewLanguage } from './review-settings'
+
+export type ExportFormat = 'sarif' | 'markdown' | 'json'
+
+/**
+ * エクスポート対象の1ファイル分のレビュー結果
+ */
+export interface ExportedFile {
+	// ワークスペースからの相対パス（ワークスペース外の場合は絶対パス）
+	path: string
+	// ワークスペース内のファイルかどうか
+	inWorkspace: boolean
+	findings: LocatedReviewItem[]
+}
+
+export const EXPORT_FILE_EXTENSIONS: Record<ExportFormat, string> = {
+	sarif: 'sarif',
+	markdown: 'md',
+	json: 'json',
+}
+
+const SEVERITY_ORDER: FindingSeverity[] = ['ERROR', 'WARNING', 'INFO', 'HINT']
+
+// レポートの文言（指摘と同じ言語で出力する）
+const REPORT_MESSAGES: Record<
+	ReviewLanguage,
+	{
+		severities: Record<FindingSeverity, string>
+		ruleDescription: (severity: string) => string
+		title: string
+		exportedAt: (date: string) => string
+		location: (line: number, column: number) => string
+		confidence: (percent: number) => string
+		models: (names: string) => string
+		annotations: (annotations: string[]) => string
+	}
+> = {
+	ja: {
+		severities: {
+			ERROR: 'エラー',
+			WARNING: '警告',
+			INFO: '情報',
+			HINT: 'ヒント',
+		},
+		ruleDescription: (severity) => `LLMによるレビューの指摘（${severity}）`,
+		title: 'LLMレビュー結果',
+		exportedAt: (date) => `出力日時: ${date}`,
+		location: (line, column) => `${line}行${column}列`,
+		confidence: (percent) => `確信度: ${percent}%`,
+		models: (names) => `モデル: ${names}`,
+		annotations: (annotations) => `（${annotations.join('、')}）`,
+	},
+	en: {
+		severities: {
+			ERROR: 'Error',
+			WARNING: 'Warning',
+			INFO: 'Info',
+			HINT: 'Hint',
+		},
+		ruleDescription: (severity) => `LLM review finding (${severity})`,
+		title: 'LLM Review Results',
+		exportedAt: (date) => `Exported at: ${date}`,
+		location: (line, column) => `Line ${line}, column ${column}`,
+		confidence: (percent) => `confidence: ${percent}%`,
+		models: (names) => `models: ${names}`,
+		annotations: (annotations) => ` (${annotations.join(', ')})`,
+	},
+}
+
+/**
+ * @param language レポートの見出しなどの言語
+ */
+export function exportFindings(
+	format: ExportFormat,
+	files: ExportedFile[],
+	language: ReviewLanguage
+): string {
+	switch (format) {
+		case 'sarif':
+			return JSON.stringify(toSarif(files, language), null, 2)
+		case 'markdown':
+			return toMarkdown(files, language)
+		case 'json':
+			return JSON.stringify(toJson(files), null, 2)
+	}
+}
+
+// 1始まりの行・列で表した範囲
+function toRegion(finding: LocatedReviewItem) {
+	if (!finding.range) {
+		return undefined
+	}
+	return {
+		startLine: finding.range.start.line + 1,
+		startColumn: finding.range.start.character + 1,
+		endLine: finding.range.end.line + 1,
+		endColumn: finding.range.end.character + 1,
+	}
+}
+
+/**
+ * SARIF 2.1.0 形式に変換する
+ * ルールIDは重要度ごとに定義する
+ */
+function toSarif(files: ExportedFile[], language: ReviewLanguage) {
+	const messages = REPORT_MESSAGES[language]
+	const ruleId = (severity: FindingSeverity) =>
+		`llm-review/${severity.toLowerCase()}`
+	const level = (severity: FindingSeverity) => {
+		switch (severity) {
+			case 'ERROR':
+				return 'error'
+			case 'WARNING':
+				return 'warning'
+			default:
+				return 'note'
+		}
+	}
+
+	return {
+		$schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+		version: '2.1.0',
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: 'LLM Reviewer',
+						informationUri:
+							'https://github.com/bulldra/llm-code-review-extension',
+						rules: SEVERITY_ORDER.map((severity) => ({
+							id: ruleId(severity),
+							name: `LLMReview${severity}`,
+							shortDescription: {
+								text: messages.ruleDescription(
+									messages.severities[severity]
+								),
+							},
+							defaultConfiguration: { level: level(severity) },
+						})),
+					},
+				},
+				results: files.flatMap((file) =>
+					file.findings.map((finding) => {
+						const region = toRegion(finding)
+						return {
+							ruleId: ruleId(finding.severity),
+							ruleIndex: SEVERITY_ORDER.indexOf(finding.severity),
+							level: level(finding.severity),
+							message: { text: finding.message },
+							// 位置の一致度、検証の確信度とアンサンブルで報告したモデル
+							...(finding.locationScore !== undefined ||
+							finding.confidence !== undefined ||
+							finding.agreedModels
+								? {
+										properties: {
+											locationScore:
+												finding.locationScore,
+											confidence: finding.confidence,
+											verificationReason:
+												finding.verificationReason,
+											agreedModels: finding.agreedModels,
+										},
+								  }
+								: {}),
+							locations: [
+								{
+									physicalLocation: {
+										artifactLocation: file.inWorkspace
+											? {
+													uri: file.path,
+													uriBaseId: '%SRCROOT%',
+											  }
+											: { uri: file.path },
+										...(region
+											? {
+													region: {
+														...region,
+														...(finding.codeSnippet
+															? {
+																	snippet: {
+																		text: finding.codeSnippet,
+																	},
+															  }
+															: {}),
+													},
+											  }
+											: {}),
+									},
+								},
+							],
+						}
+					})
+				),
+			},
+		],
+	}
+}
+
+/**
+ * ファイル・重要度ごとにまとめたMarkdownのレポートに変換する
+ */
+function toMarkdown(files: ExportedFile[], language: ReviewLanguage): string {
+	const messages = REPORT_MESSAGES[language]
+	const lines: string[] = [
+		`# ${messages.title}`,
+		'',
+		messages.exportedAt(new Date().toLocaleString()),
+		'',
+	]
+
+	for (const file of files) {
+		lines.push(`## ${file.path}`, '')
+		for (const severity of SEVERITY_ORDER) {
+			const findings = file.findings.filter(
+				(finding) => finding.severity === severity
+			)
+			if (findings.length === 0) {
+				continue
+			}
+			lines.push(
+				`### ${messages.severities[severity]} (${findings.length})`,
+				''
+			)
+			for (const finding of findings) {
+				const region = toRegion(finding)
+				const location = region
+					? `${messages.location(
+							region.startLine,
+							region.startColumn
+					  )}: `
+					: ''
+				// 検証の確信度とアンサンブルで報告したモデルを添える
+				const annotations = [
+					...(finding.confidence !== undefined
+						? [
+								messages.confidence(
+									Math.round(finding.confidence * 100)
+								),
+						  ]
+						: []),
+					...(finding.agreedModels
+						? [messages.models(finding.agreedModels.join(', '))]
+						: []),
+				]
+				lines.push(
+					`- ${location}${finding.message.replace(/\n/g, '\n  ')}${
+						annotations.length > 0
+							? messages.annotations(annotations)
+							: ''
+					}`
+				)
+				if (finding.codeSnippet) {
+					const fence = codeFence(finding.codeSnippet)
+					lines.push(
+						'',
+						`  ${fence}`,
+						...finding.codeSnippet
+							.split('\n')
+							.map((line) => `  ${line}`),
+						`  ${fence}`,
+						''
+					)
+				}
+			}
+			lines.push('')
+		}
+	}
+	return lines.join('\n')
+}
+
+/**
+ * コードをMarkdownのコードブロックにするときの区切り
+ * コードに含まれる最も長いバッククォートの連続より1つ長くして、コードブロックが途中で閉じないようにする
+ */
+export function codeFence(code: string): string {
+	const longest = Math.max(
+		0,
+		...(code.match(/`+/g) ?? []).map((backticks) => backticks.length)
+	)
+	return '`'.repeat(Math.max(3, longest + 1))
+}
+
+function toJson(files: ExportedFile[]) {
+	return files.map((file) => ({
+		file: file.path,
+		findings: file.findings.map((finding) => ({
+			severity: finding.severity,
+			category: finding.category,
+			message: finding.message,
+			rationale: finding.rationale,
+			region: toRegion(finding),
+			locationScore: finding.locationScore,
+			codeSnippet: finding.codeSnippet,
+			suggestedFix: finding.suggestedFix,
+			confidence: finding.confidence,
+			verificationReason: finding.verificationReason,
+			agreedModels: finding.agreedModels,
+			model: finding.model,
+			reviewedAt: finding.reviewedAt,
+			raw: finding.raw,
+		})),
+	}))
+}
@@ -1,5 +1,57 @@
 import * as vscode from 'vscode'
-import { requestLLMReviewWithFunctionCalling, LLM_CONFIG } from './llm-client'
+import {
+	requestLLMReviewWithFunctionCalling,
+	getRelatedDefinitions,
+	getReviewSettings,
+	PROMPT_VERSION,
+	setSecretStorage,
+	storeApiKey,
+	deleteApiKey,
+} from './llm-client'
+import { getChangedLineRanges } from './git-diff'
+import { LineRange, isLineInRanges } from './line-ranges'
+import {
+	LLMFixCodeActionProvider,
+	canApplySuggestedFix,
+	createSuggestedFixEdit,
+} from './quick-fix'
+import {
+	FINDING_CATEGORIES,
+	FindingSeverity,
+	ReviewFinding,
+	categoryLabel,
+	dedupeFindings,
+	formatDiagnosticMessage,
+	severityLabel,
+	toDiagnosticSeverity,
+} from './review-finding'
+import { createFingerprint } from './review-item'
+import { splitDocumentIntoChunks } from './chunker'
+import { ReviewCache } from './review-cache'
+import { ProjectRulesStore } from './project-rules-store'
+import {
+	DismissedFindingsStore,
+	DismissedItem,
+	DismissedTreeDataProvider,
+} from './dismissed-findings'
+import { filterSuppressedFindings } from './suppressions'
+import { BaselineStore } from './baseline'
+import {
+	relocateEditedFindings,
+	relocateFindings,
+	shiftFindingsThroughChanges,
+} from './finding-tracker'
+import {
+	EXPORT_FILE_EXTENSIONS,
+	ExportFormat,
+	ExportedFile,
+	exportFindings,
+} from './exporters'
+import { ReviewTarget } from './review-core'
+import { expandEnsembleSettings, getUrlOrigin } from './review-settings'
+import { mergeEnsembleFindings } from './ensemble'
+import { ExplanationPanelManager } from './explanation-panel'
+import { FindingHoverProvider, FindingReference } from './finding-hover'
 
 //
 const LLM_REVIEWER_CONSOLE = vscode.window.createOutputChannel('llm-reviewer')
@@ -8,6 +60,12 @@ const LLM_REVIEWER_CONSOLE = vscode.window.createOutputChannel('llm-reviewer')
 const diagnosticCollection =
 	vscode.languages.createDiagnosticCollection('llm-reviewer')
 
+// LLMの修正案を提供するクイックフィックスプロバイダーを宣言
+const fixCodeActionProvider = new LLMFixCodeActionProvider()
+
+// 指摘の詳細をカードとして表示するホバープロバイダーを宣言
+const findingHoverProvider = new FindingHoverProvider()
+
 // 重要度の種類を定義
 enum Severity {
 	Error = 'error',
@@ -16,6 +74,20 @@ enum Severity {
 	Hint = 'hint', // ヒントレベルを追加
 }
 
+// 指摘の重要度をTreeView用の重要度に変換する
+function toTreeSeverity(severity: FindingSeverity): Severity {
+	switch (severity) {
+		case 'ERROR':
+			return Severity.Error
+		case 'WARNING':
+			return Severity.Warning
+		case 'HINT':
+			return Severity.Hint
+		default:
+			return Severity.Info
+	}
+}
+
 // レビュー結果のTreeViewアイテム用クラス
 class ReviewItem extends vscode.TreeItem {
 	constructor(
@@ -25,8 +97,7 @@ class ReviewItem extends vscode.TreeItem {
 		public readonly description?: string,
 		public readonly resourceUri?: vscode.Uri, // ファイルパスを表すため追加
 		public readonly severity?: Severity, // 重要度を追加
-		public readonly lineNumber?: number, // 行番号を保持
-		public readonly colNumber?: number // 列番号を保持
+		public readonly finding?: ReviewFinding // 指摘事項を保持
 	) {
 		super(label, collapsibleState)
 
@@ -76,27 +147,101 @@ class ReviewItem extends vscode.TreeItem {
 			}
 		}
 
-		// 行番号と列番号が指定されている場合、クリックでジャンプする機能を追加
-		if (resourceUri && lineNumber !== undefined) {
+		// ベースラインに含まれる指摘はグレーで表示する
+		if (finding?.inBaseline) {
+			this.iconPath = new vscode.ThemeIcon(
+				'history',
+				new vscode.ThemeColor('disabledForeground')
+			)
+			this.description = vscode.l10n.t('Baseline')
+		}
+
+		// レビュー後の編集でコードが見つからなくなった指摘は、解決済みの可能性ありとして表示する
+		if (finding?.possiblyResolved) {
+			this.iconPath = new vscode.ThemeIcon(
+				'pass',
+				new vscode.ThemeColor('disabledForeground')
+			)
+			this.description = vscode.l10n.t('Possibly resolved')
+		}
+
+		// ラベルは1行に省略されるため、ツールチップには指摘の全文を表示
+		if (finding) {
+			this.tooltip = [
+				finding.message,
+				// 検証した指摘は確信度と判定理由を表示
+				...(finding.confidence !== undefined
+					? [
+							'',
+							vscode.l10n.t(
+								'Confidence: {0}%',
+								Math.round(finding.confidence * 100)
+							),
+							...(finding.verificationReason
+								? [finding.verificationReason]
+								: []),
+					  ]
+					: []),
+				// 位置が不確かな指摘はスニペットとの一致度を表示
+				...(isUncertainLocation(finding)
+					? [
+							'',
+							vscode.l10n.t(
+								'Location match: {0}%',
+								Math.round(finding.locationScore! * 100)
+							),
+					  ]
+					: []),
+				// アンサンブルの指摘は報告したモデルを表示
+				...(finding.agreedModels
+					? [
+							'',
+							vscode.l10n.t(
+								'Models: {0}',
+								finding.agreedModels.join(', ')
+							),
+					  ]
+					: []),
+			].join('\n')
+			// コンテキストメニューの表示条件に使用する
+			this.contextValue = 'finding'
+		}
+
+		// 指摘の位置が特定できている場合、クリックで該当範囲を選択する機能を追加
+		if (resourceUri && finding?.range) {
 			this.command = {
-				title: '該当箇所へジャンプ',
+				title: vscode.l10n.t('Go to location'),
 				command: 'vscode.open',
-				arguments: [
-					resourceUri,
-					{
-						selection: new vscode.Range(
-							lineNumber > 0 ? lineNumber - 1 : 0,
-							colNumber !== undefined ? colNumber : 0,
-							lineNumber > 0 ? lineNumber - 1 : 0,
-							colNumber !== undefined ? colNumber + 1 : 1
-						),
-					},
-				],
+				arguments: [resourceUri, { selection: finding.range }],
 			}
 		}
 	}
 }
 
+// スニペットとの一致度がこの値未満の指摘は、位置が不確かであることを表示する
+const UNCERTAIN_LOCATION_SCORE = 0.9
+
+function isUncertainLocation(finding: ReviewFinding): boolean {
+	return (
+		finding.range !== undefined &&
+		finding.locationScore !== undefined &&
+		finding.locationScore < UNCERTAIN_LOCATION_SCORE
+	)
+}
+
+// 対応が必要な指摘か（ベースラインに含まれる指摘と解決済みの可能性がある指摘を除く）
+function isActiveFinding(finding: ReviewFinding | undefined): boolean {
+	return !finding?.inBaseline && !finding?.possiblyResolved
+}
+
+// TreeViewで指摘をまとめる単位
+type TreeGroupBy = 'file' | 'severity' | 'category'
+// TreeViewで指摘を並べる順序
+type TreeSortBy = 'position' | 'severity' | 'message'
+
+// 重要度の高い順
+const SEVERITY_ORDER: FindingSeverity[] = ['ERROR', 'WARNING', 'INFO', 'HINT']
+
 // レビュー結果のTreeView用のデータプロバイダークラス
 class ReviewTreeDataProvider implements vscode.TreeDataProvider<ReviewItem> {
 	private _onDidChangeTreeData: vscode.EventEmitter<
@@ -106,10 +251,18 @@ class ReviewTreeDataProvider implements vscode.TreeDataProvider<ReviewItem> {
 		ReviewItem | undefined | null | void
 	> = this._onDidChangeTreeData.event
 
-	// ファイルパスをキーとしてレビューアイテムを保持するMap
-	private _reviewItemsByFile = new Map<string, ReviewItem[]>()
+	// ファイルパスをキーとして指摘事項を保持するMap（同じ内容・同じ位置の指摘は除く）
+	private _findingsByFile = new Map<string, ReviewFinding[]>()
 	private _treeView?: vscode.TreeView<ReviewItem> // TreeViewインスタンスへの参照を追加
 
+	// 表示方法（まとめ方・並べ方・絞り込み）
+	private _groupBy: TreeGroupBy = 'file'
+	private _sortBy: TreeSortBy = 'position'
+	// 表示する最低の重要度
+	private _minSeverity: FindingSeverity = 'HINT'
+	// 指摘内容・コード・ファイルパスに含まれる文字列で絞り込む（大文字・小文字は区別しない）
+	private _searchText = ''
+
 	constructor() {
 		LLM_REVIEWER_CONSOLE.appendLine(
 			'[llm-reviewer] ReviewTreeDataProvider initialized'
@@ -121,79 +274,235 @@ class ReviewTreeDataProvider implements vscode.TreeDataProvider<ReviewItem> {
 		this._treeView = treeView
 	}
 
+	get groupBy(): TreeGroupBy {
+		return this._groupBy
+	}
+
+	get sortBy(): TreeSortBy {
+		return this._sortBy
+	}
+
+	get minSeverity(): FindingSeverity {
+		return this._minSeverity
+	}
+
+	get searchText(): string {
+		return this._searchText
+	}
+
+	setGroupBy(groupBy: TreeGroupBy): void {
+		this._groupBy = groupBy
+		this._onDidChangeTreeData.fire()
+	}
+
+	setSortBy(sortBy: TreeSortBy): void {
+		this._sortBy = sortBy
+		this._onDidChangeTreeData.fire()
+	}
+
+	// 絞り込みの条件を変更する（省略した条件は変更しない）
+	setFilter(filter: { minSeverity?: FindingSeverity; searchText?: string }) {
+		this._minSeverity = filter.minSeverity ?? this._minSeverity
+		this._searchText = (filter.searchText ?? this._searchText).trim()
+		this.updateFilterDescription()
+		this._onDidChangeTreeData.fire()
+	}
+
+	clearFilter(): void {
+		this.setFilter({ minSeverity: 'HINT', searchText: '' })
+	}
+
 	getTreeItem(element: ReviewItem): vscode.TreeItem {
 		return element
 	}
 
 	getChildren(element?: ReviewItem): Thenable<ReviewItem[]> {
-		if (!element) {
-			// トップレベル: ファイルパスのリストを表示
-			const fileItems: ReviewItem[] = []
-			for (const [
-				uriString,
-				items,
-			] of this._reviewItemsByFile.entries()) {
-				if (items.length > 0) {
-					const uri = vscode.Uri.parse(uriString)
+		// グループの子要素: グループに含まれるレビューアイテム
+		if (element) {
+			return Promise.resolve(element.children)
+		}
 
-					// ワークスペース相対パスを取得
-					const workspaceRelativePath =
-						this.getWorkspaceRelativePath(uri)
-
-					// 問題の数を取得
-					const errorCount = items.filter(
-						(i) => i.severity === Severity.Error
-					).length
-					const warningCount = items.filter(
-						(i) => i.severity === Severity.Warning
-					).length
-					const infoCount = items.filter(
-						(i) => i.severity === Severity.Info
-					).length
-					const hintCount = items.filter(
-						(i) => i.severity === Severity.Hint
-					).length
-
-					// ファイル名と問題数を組み合わせたラベル
-					// 例: "/src/extension.ts (エラー: 2, 警告: 3)"
-					let fileLabel = workspaceRelativePath
-					const counts = []
-
-					if (errorCount > 0) {
-						counts.push(`エラー: ${errorCount}`)
-					}
-					if (warningCount > 0) {
-						counts.push(`警告: ${warningCount}`)
-					}
-					if (infoCount > 0) {
-						counts.push(`情報: ${infoCount}`)
-					}
-					if (hintCount > 0) {
-						counts.push(`ヒント: ${hintCount}`)
-					}
+		// トップレベル: 設定に応じてファイル・重要度・分類ごとにまとめる
+		const files = this.getFilteredFiles()
+		let groups: ReviewItem[]
+		switch (this._groupBy) {
+			case 'severity':
+				groups = this.groupBySeverity(files)
+				break
+			case 'category':
+				groups = this.groupByCategory(files)
+				break
+			default:
+				groups = this.groupByFile(files)
+		}
 
-					// 問題数の表示をファイル名の後ろに追加
-					if (counts.length > 0) {
-						fileLabel = `${workspaceRelativePath} (${counts.join(
-							', '
-						)})`
-					}
+		// 絞り込みですべての指摘が非表示になった場合はメッセージを表示
+		if (this._treeView) {
+			this._treeView.message =
+				groups.length === 0 && this._findingsByFile.size > 0
+					? vscode.l10n.t('No findings match the filter')
+					: undefined
+		}
+		return Promise.resolve(groups)
+	}
 
-					fileItems.push(
-						new ReviewItem(
-							fileLabel, // 指摘数を含むラベル
-							vscode.TreeItemCollapsibleState.Expanded,
-							items,
-							uri.fsPath, // description にフルパス
-							uri // resourceUri に URI を設定
-						)
-					)
-				}
+	// 絞り込みの条件に一致する指摘をファイルごとに取得する
+	private getFilteredFiles(): Array<{
+		uri: vscode.Uri
+		findings: ReviewFinding[]
+	}> {
+		const minRank = SEVERITY_ORDER.indexOf(this._minSeverity)
+		const searchText = this._searchText.toLowerCase()
+		const files: Array<{ uri: vscode.Uri; findings: ReviewFinding[] }> = []
+		for (const [uriString, findings] of this._findingsByFile.entries()) {
+			const uri = vscode.Uri.parse(uriString)
+			const path = this.getWorkspaceRelativePath(uri).toLowerCase()
+			const filtered = findings.filter(
+				(finding) =>
+					SEVERITY_ORDER.indexOf(finding.severity) <= minRank &&
+					(!searchText ||
+						[finding.message, finding.codeSnippet ?? '', path].some(
+							(text) => text.toLowerCase().includes(searchText)
+						))
+			)
+			if (filtered.length > 0) {
+				files.push({ uri, findings: filtered })
 			}
-			return Promise.resolve(fileItems)
 		}
-		// ファイルパスノードの子要素: そのファイルのレビューアイテム
-		return Promise.resolve(element.children)
+		return files
+	}
+
+	// ファイルごとにまとめる
+	private groupByFile(
+		files: Array<{ uri: vscode.Uri; findings: ReviewFinding[] }>
+	): ReviewItem[] {
+		return files.map(({ uri, findings }) => {
+			const items = this._createReviewItems(findings, uri, false)
+
+			// ワークスペース相対パスを取得
+			const workspaceRelativePath = this.getWorkspaceRelativePath(uri)
+
+			// 問題の数を取得（ベースラインに含まれる指摘と解決済みの可能性がある指摘は別に数える）
+			const newItems = items.filter((i) => isActiveFinding(i.finding))
+			const errorCount = newItems.filter(
+				(i) => i.severity === Severity.Error
+			).length
+			const warningCount = newItems.filter(
+				(i) => i.severity === Severity.Warning
+			).length
+			const infoCount = newItems.filter(
+				(i) => i.severity === Severity.Info
+			).length
+			const hintCount = newItems.filter(
+				(i) => i.severity === Severity.Hint
+			).length
+			const baselineCount = items.filter(
+				(i) => i.finding?.inBaseline
+			).length
+			const resolvedCount = items.filter(
+				(i) => !i.finding?.inBaseline && i.finding?.possiblyResolved
+			).length
+
+			// ファイル名と問題数を組み合わせたラベル
+			// 例: "/src/extension.ts (エラー: 2, 警告: 3)"
+			let fileLabel = workspaceRelativePath
+			const counts = []
+
+			if (errorCount > 0) {
+				counts.push(vscode.l10n.t('Errors: {0}', errorCount))
+			}
+			if (warningCount > 0) {
+				counts.push(vscode.l10n.t('Warnings: {0}', warningCount))
+			}
+			if (infoCount > 0) {
+				counts.push(vscode.l10n.t('Info: {0}', infoCount))
+			}
+			if (hintCount > 0) {
+				counts.push(vscode.l10n.t('Hints: {0}', hintCount))
+			}
+			if (baselineCount > 0) {
+				counts.push(vscode.l10n.t('Baseline: {0}', baselineCount))
+			}
+			if (resolvedCount > 0) {
+				counts.push(
+					vscode.l10n.t('Possibly resolved: {0}', resolvedCount)
+				)
+			}
+
+			// 問題数の表示をファイル名の後ろに追加
+			if (counts.length > 0) {
+				fileLabel = `${workspaceRelativePath} (${counts.join(', ')})`
+			}
+
+			const fileItem = new ReviewItem(
+				fileLabel, // 指摘数を含むラベル
+				vscode.TreeItemCollapsibleState.Expanded,
+				items,
+				uri.fsPath, // description にフルパス
+				uri // resourceUri に URI を設定
+			)
+			// コンテキストメニューの表示条件に使用する
+			fileItem.contextValue = 'file'
+			return fileItem
+		})
+	}
+
+	// 重要度ごとにまとめる（指摘にはファイルパスを表示する）
+	private groupBySeverity(
+		files: Array<{ uri: vscode.Uri; findings: ReviewFinding[] }>
+	): ReviewItem[] {
+		const items = this.createItemsAcrossFiles(files)
+		return SEVERITY_ORDER.flatMap((severity) => {
+			const children = items.filter(
+				(item) => item.finding?.severity === severity
+			)
+			if (children.length === 0) {
+				return []
+			}
+			return [
+				new ReviewItem(
+					`${severityLabel(severity)} (${children.length})`,
+					vscode.TreeItemCollapsibleState.Expanded,
+					children,
+					undefined,
+					undefined,
+					toTreeSeverity(severity)
+				),
+			]
+		})
+	}
+
+	// 分類ごとにまとめる（指摘にはファイルパスを表示する）
+	private groupByCategory(
+		files: Array<{ uri: vscode.Uri; findings: ReviewFinding[] }>
+	): ReviewItem[] {
+		const items = this.createItemsAcrossFiles(files)
+		return [...FINDING_CATEGORIES, undefined].flatMap((category) => {
+			const children = items.filter(
+				(item) => item.finding?.category === category
+			)
+			if (children.length === 0) {
+				return []
+			}
+			const group = new ReviewItem(
+				`${categoryLabel(category)} (${children.length})`,
+				vscode.TreeItemCollapsibleState.Expanded,
+				children
+			)
+			group.iconPath = new vscode.ThemeIcon('tag')
+			return [group]
+		})
+	}
+
+	// 複数のファイルの指摘を、設定された順序で1つの一覧にする
+	private createItemsAcrossFiles(
+		files: Array<{ uri: vscode.Uri; findings: ReviewFinding[] }>
+	): ReviewItem[] {
+		return files
+			.flatMap(({ uri, findings }) =>
+				this._createReviewItems(findings, uri, true)
+			)
+			.sort((a, b) => this.compareItems(a, b))
 	}
 
 	// URIからワークスペース相対パスを取得するヘルパーメソッド
@@ -228,231 +537,199 @@ class ReviewTreeDataProvider implements vscode.TreeDataProvider<ReviewItem> {
 	}
 
 	// 特定のファイルのレビュー結果を更新する
-	update(uriString: string, text: string): void {
-		// 対象ファイルのURIを取得
-		const uri = vscode.Uri.parse(uriString)
-
-		// テキストからTreeViewアイテムを生成 (URIも渡す)
-		const items = this._parseReviewItems(text, uri)
-		this._reviewItemsByFile.set(uriString, items)
-
-		// 全ファイルのレビューアイテムの総数を計算
-		let totalReviewCount = 0
-		for (const items of this._reviewItemsByFile.values()) {
-			totalReviewCount += items.length
-		}
+	update(uriString: string, findings: ReviewFinding[]): void {
+		// 重複を避けるために同じ内容・同じ位置の指摘は追加しない
+		const uniqueReviews = new Set<string>()
+		const uniqueFindings = findings.filter((finding) => {
+			const start = finding.range?.start
+			const reviewKey = `${finding.severity}-${finding.message}-${
+				start?.line ?? -1
+			}-${start?.character ?? -1}`
+			if (uniqueReviews.has(reviewKey)) {
+				return false
+			}
+			uniqueReviews.add(reviewKey)
+			return true
+		})
+		this._findingsByFile.set(uriString, uniqueFindings)
 
 		// TreeViewのバッジを更新
-		if (this._treeView) {
-			if (totalReviewCount > 0) {
-				this._treeView.badge = {
-					value: totalReviewCount,
-					tooltip: `${totalReviewCount}件の指摘事項`,
-				}
-			} else {
-				this._treeView.badge = undefined // レビューがなければバッジをクリア
-			}
-		}
+		this.updateBadge()
 
 		// 更新を通知
 		this._onDidChangeTreeData.fire()
 	}
 
-	// レビューテキストを解析してTreeViewアイテムに変換する
-	private _parseReviewItems(
-		text: string,
-		fileUri?: vscode.Uri
+	// 指摘事項をTreeViewアイテムに変換する
+	// showFilePath: ファイル以外でまとめる場合は、指摘の説明にファイルパスを表示する
+	private _createReviewItems(
+		findings: ReviewFinding[],
+		fileUri: vscode.Uri,
+		showFilePath: boolean
 	): ReviewItem[] {
-		// 重複チェック用のSet
-		const uniqueReviews = new Set<string>()
-		// レビュー結果アイテムの配列
-		const reviewItems: ReviewItem[] = []
-		// 行番号ごとのアイテム（行番号の重複を避けるため）
-		const lineNumberItems = new Map<number, ReviewItem[]>()
-
-		// <think>タグで囲まれた部分を除外
-		let filteredText = text
-		const thinkRegex = /<think>[\s\S]*?<\/think>/g
-		filteredText = filteredText.replace(thinkRegex, '')
-
-		// テキストを行ごとに分割
-		const lines = filteredText
-			.split('\n')
-			.map((line) => line.trim())
-			.filter((line) => {
-				// 空行をスキップ
-				if (line.length === 0) return false
-
-				// think タグから始まる行をスキップ
-				if (line.startsWith('<think>') || line.startsWith('think ')) {
-					return false
-				}
-
-				// 余計な文言をフィルタリング
-				if (
-					line.startsWith('Here are') ||
-					line.startsWith('以下に') ||
-					line.startsWith('レビュー結果') ||
-					line.startsWith('コードレビュー') ||
-					line.startsWith('指摘事項') ||
-					line.includes('---') ||
-					line.includes('===') ||
-					line.includes('###') ||
-					line.includes('```') ||
-					line.startsWith('#')
-				) {
-					return false
-				}
-
-				// 行番号表記のみの行をスキップ（例: "L10:" や "行 10:" など）
-				if (/^(L|Line|行)\s*\d+:?\s*$/.test(line)) {
-					return false
-				}
-
-				return true
-			})
-			.map((line) => {
-				// 箇条書き記号を削除
-				return line.replace(/^[\s•\-\*\+・・・・]\s*/, '').trim()
-			})
-
-		// リソースURIを設定（指定されたURIかアクティブエディタのURIを使用）
-		const resourceUri =
-			fileUri || vscode.window.activeTextEditor?.document.uri
-
-		// 各行を処理
-		for (const line of lines) {
-			// 新しい形式の行番号、重要度と内容を抽出する正規表現
-			// 形式: 「[重要度]: 指摘内容」 または 「[重要度]: 指摘内容 [Ln X, Col Y]」
-			const severityMatch = line.match(
-				/^\[(ERROR|WARNING|INFO|HINT)\]\s*:?\s*(.+?)(?:\s+\[Ln\s+(\d+)(?:,\s*Col\s+(\d+))?\])?$/i
-			)
-
-			// 新形式にマッチしたら、その情報を使用
-			if (severityMatch) {
-				const severityText = severityMatch[1].toUpperCase()
-				const content = severityMatch[2].trim()
-				// 行番号と列番号を取得（存在する場合）
-				const lineNumber = severityMatch[3]
-					? parseInt(severityMatch[3], 10)
-					: undefined
-				const colNumber = severityMatch[4]
-					? parseInt(severityMatch[4], 10)
-					: undefined
-
-				// 重要度を判定
-				let severity: Severity
-				if (severityText === 'ERROR') {
-					severity = Severity.Error
-				} else if (severityText === 'WARNING') {
-					severity = Severity.Warning
-				} else if (severityText === 'INFO') {
-					severity = Severity.Info
-				} else if (severityText === 'HINT') {
-					severity = Severity.Hint
-				} else {
-					severity = Severity.Info // デフォルト
-				}
+		const reviewItems = findings.map((finding) => {
+			const severity = toTreeSeverity(finding.severity)
+			const start = finding.range?.start
+
+			// ラベルは1行で表示するため、改行を空白に置き換える
+			let displayText = finding.message.replace(/\s*\n\s*/g, ' ')
+
+			// 表示テキストに行番号と列番号の情報を追加（位置が不確かな場合は「付近」とする）
+			if (start) {
+				displayText = isUncertainLocation(finding)
+					? vscode.l10n.t(
+							'{0} (near line {1}, column {2})',
+							displayText,
+							start.line + 1,
+							start.character + 1
+					  )
+					: vscode.l10n.t(
+							'{0} (line {1}, column {2})',
+							displayText,
+							start.line + 1,
+							start.character + 1
+					  )
+			}
 
-				// 表示テキストに行番号と列番号の情報を追加
-				let displayText = content
-				if (lineNumber) {
-					displayText = `${displayText}${
-						lineNumber ? ` (行 ${lineNumber}` : ''
-					}${colNumber ? `, 列 ${colNumber}` : ''}${
-						lineNumber ? ')' : ''
-					}`
-				}
+			// 重要度をプレフィックスとして追加（アイコンだけではわかりにくい場合に備えて）
+			const severityPrefix = `[${severityLabel(finding.severity)}] `
+
+			return new ReviewItem(
+				severityPrefix + displayText,
+				vscode.TreeItemCollapsibleState.None,
+				[],
+				showFilePath
+					? this.getWorkspaceRelativePath(fileUri)
+					: undefined,
+				fileUri,
+				severity,
+				finding
+			)
+		})
 
-				// 重要度をプレフィックスとして追加（アイコンだけではわかりにくい場合に備えて）
-				let severityPrefix = ''
-				switch (severity) {
-					case Severity.Error:
-						severityPrefix = '[エラー] '
-						break
-					case Severity.Warning:
-						severityPrefix = '[警告] '
-						break
-					case Severity.Info:
-						severityPrefix = '[情報] '
-						break
-					case Severity.Hint:
-						severityPrefix = '[ヒント] '
-						break
-				}
+		return reviewItems.sort((a, b) => this.compareItems(a, b))
+	}
 
-				displayText = severityPrefix + displayText
+	// 設定された順序でアイテムを比較する（同じ場合はファイル・位置の順）
+	private compareItems(a: ReviewItem, b: ReviewItem): number {
+		switch (this._sortBy) {
+			case 'severity':
+				return (
+					SEVERITY_ORDER.indexOf(a.finding!.severity) -
+						SEVERITY_ORDER.indexOf(b.finding!.severity) ||
+					this.comparePositions(a, b)
+				)
+			case 'message':
+				return (
+					a.finding!.message.localeCompare(b.finding!.message) ||
+					this.comparePositions(a, b)
+				)
+			default:
+				return this.comparePositions(a, b)
+		}
+	}
 
-				const item = new ReviewItem(
-					displayText,
-					vscode.TreeItemCollapsibleState.None,
-					[],
-					undefined,
-					resourceUri, // 引数で渡されたURIを使用
-					severity,
-					lineNumber, // 行番号を設定
-					colNumber // 列番号を設定
-				)
-
-				// 重複を避けるために同じ内容の指摘は追加しない
-				const reviewKey = `${severity}-${content}-${lineNumber || 0}-${
-					colNumber || 0
-				}`
-				if (!uniqueReviews.has(reviewKey)) {
-					uniqueReviews.add(reviewKey)
-					reviewItems.push(item)
-				}
-			}
+	// ファイル・位置の順に比較する（位置がない場合はファイルの最後に）
+	private comparePositions(a: ReviewItem, b: ReviewItem): number {
+		const fileOrder = (a.resourceUri?.toString() ?? '').localeCompare(
+			b.resourceUri?.toString() ?? ''
+		)
+		if (fileOrder !== 0) {
+			return fileOrder
+		}
+		const aRange = a.finding?.range
+		const bRange = b.finding?.range
+		if (!aRange && !bRange) {
+			return 0
+		}
+		if (!aRange) {
+			return 1
+		}
+		if (!bRange) {
+			return -1
 		}
+		return aRange.start.compareTo(bRange.start)
+	}
 
-		// 行番号でソート（行番号がない場合は最後に）
-		reviewItems.sort((a, b) => {
-			if (a.lineNumber === undefined && b.lineNumber === undefined) {
-				return 0
-			}
-			if (a.lineNumber === undefined) {
-				return 1
+	// 保持しているすべてのレビュー結果をファイルごとに取得する
+	getAllFindings(): Array<{ uri: vscode.Uri; findings: ReviewFinding[] }> {
+		const results: Array<{ uri: vscode.Uri; findings: ReviewFinding[] }> =
+			[]
+		for (const [uriString, findings] of this._findingsByFile.entries()) {
+			if (findings.length > 0) {
+				results.push({ uri: vscode.Uri.parse(uriString), findings })
 			}
-			if (b.lineNumber === undefined) {
-				return -1
-			}
-			return a.lineNumber - b.lineNumber
-		})
-
-		return reviewItems
+		}
+		return results
 	}
 
 	// 特定のファイルのレビュー結果をクリアするメソッドを追加
 	clearFileReviews(uriString: string): void {
-		if (this._reviewItemsByFile.has(uriString)) {
-			this._reviewItemsByFile.delete(uriString)
+		publishedFindings.delete(uriString)
+		clearTimeout(relocateTimers.get(uriString))
+		relocateTimers.delete(uriString)
+		if (this._findingsByFile.has(uriString)) {
+			this._findingsByFile.delete(uriString)
 			this.updateBadge() // バッジも更新
 			this._onDidChangeTreeData.fire()
 			LLM_REVIEWER_CONSOLE.appendLine(
 				`[llm-reviewer] Cleared reviews for ${uriString}`
 			)
 		}
-		// 問題タブの診断結果もクリア
-		const doc = vscode.workspace.textDocuments.find(
-			(d) => d.uri.toString() === uriString
-		)
-		if (doc) {
-			diagnosticCollection.delete(doc.uri)
+		// 問題タブの診断結果もクリア（開いていないファイルの診断結果も含む）
+		const uri = vscode.Uri.parse(uriString)
+		diagnosticCollection.delete(uri)
+		fixCodeActionProvider.clearFindings(uri)
+		findingHoverProvider.clearFindings(uri)
+	}
+
+	// すべてのファイルのレビュー結果をクリアする
+	clearAllReviews(): void {
+		for (const uriString of new Set([
+			...this._findingsByFile.keys(),
+			...publishedFindings.keys(),
+		])) {
+			this.clearFileReviews(uriString)
+		}
+		diagnosticCollection.clear()
+		this.updateBadge()
+	}
+
+	// 絞り込みの条件をTreeViewのタイトルの横に表示する
+	private updateFilterDescription(): void {
+		if (!this._treeView) {
+			return
+		}
+		const filters: string[] = []
+		if (this._minSeverity !== 'HINT') {
+			filters.push(
+				vscode.l10n.t('{0} or higher', severityLabel(this._minSeverity))
+			)
 		}
+		if (this._searchText) {
+			filters.push(`"${this._searchText}"`)
+		}
+		this._treeView.description =
+			filters.length > 0
+				? vscode.l10n.t('Filter: {0}', filters.join(', '))
+				: undefined
 	}
 
 	// バッジを更新するヘルパーメソッド
 	private updateBadge(): void {
 		let totalReviewCount = 0
-		for (const items of this._reviewItemsByFile.values()) {
-			totalReviewCount += items.length
+		for (const findings of this._findingsByFile.values()) {
+			// ベースラインに含まれる指摘と解決済みの可能性がある指摘は数えない
+			totalReviewCount += findings.filter((finding) =>
+				isActiveFinding(finding)
+			).length
 		}
 
 		if (this._treeView) {
 			if (totalReviewCount > 0) {
 				this._treeView.badge = {
 					value: totalReviewCount,
-					tooltip: `${totalReviewCount}件の指摘事項`,
+					tooltip: vscode.l10n.t('{0} findings', totalReviewCount),
 				}
 			} else {
 				this._treeView.badge = undefined
@@ -467,17 +744,78 @@ const reviewTreeProvider = new ReviewTreeDataProvider()
 // ドキュメントごとに最後の実行時刻を保持し、30秒以内の再実行を防止
 const lastRunMap = new Map<string, number>()
 
+// p-queue はESMのため、ここで利用するメソッドのみの型を定義
+interface ReviewQueue {
+	add<T>(
+		task: () => Promise<T>,
+		options: { throwOnTimeout: true; signal?: AbortSignal }
+	): Promise<T>
+}
+
+// LLMへのリクエストを順番に実行するためのキュー（activate時に生成）
+let reviewQueue: ReviewQueue | undefined
+
+// レビュー結果の永続キャッシュ（activate時に生成）
+let reviewCache: ReviewCache | undefined
+
+// プロジェクトのルールファイル（.llmlint.json / .llmlint.yaml）（activate時に生成）
+let projectRulesStore: ProjectRulesStore | undefined
+
+// 非表示にした指摘（activate時に生成）
+let dismissedStore: DismissedFindingsStore | undefined
+
+// ベースライン（activate時に生成）
+let baselineStore: BaselineStore | undefined
+// ベースラインに含まれる指摘をグレーで表示するかどうか
+let showBaselineFindings = false
+
+// 抑制コメントや非表示にした指摘を取り除く前のレビュー結果
+// （指摘を非表示にした・元に戻したときに表示し直すために保持する）
+const publishedFindings = new Map<
+	string,
+	{ doc: vscode.TextDocument; findings: ReviewFinding[] }
+>()
+
+// ワークスペース・フォルダ単位でレビューしたファイル
+// （エディタで開いていないため、ドキュメントが閉じられてもレビュー結果を残す）
+const batchReviewedUris = new Set<string>()
+
+// 編集が止まってから、編集された指摘の位置を特定し直して表示を更新するまでの待ち時間（ミリ秒）
+const RELOCATE_DELAY_MS = 500
+// ファイルURIをキーとした、編集後の指摘の位置の特定と表示の更新を待っているタイマー
+const relocateTimers = new Map<string, ReturnType<typeof setTimeout>>()
+
 /**
  * ----------------------------  ユーティリティ設定  ----------------------------
  */
 // LLM設定は llm-client.ts に移動
-const EXCLUDE_PATTERNS = vscode.workspace
-	.getConfiguration()
-	.get<string[]>('llmLint.excludePatterns') || ['.venv/**', '**/.venv/**']
-const INCLUDE_PATTERNS =
-	vscode.workspace
-		.getConfiguration()
-		.get<string[]>('llmLint.includePatterns') || []
+// 設定は変更がすぐに反映されるように都度読み込み、ワークスペースフォルダごとの設定を使用する
+
+/**
+ * ファイルのワークスペースフォルダに設定された包含・除外パターンを取得する
+ */
+function getFilePatterns(scope?: vscode.Uri): {
+	include: string[]
+	exclude: string[]
+} {
+	const config = vscode.workspace.getConfiguration('llmLint', scope)
+	return {
+		include: config.get<string[]>('includePatterns') || [],
+		exclude: config.get<string[]>('excludePatterns') || [
+			'.venv/**',
+			'**/.venv/**',
+		],
+	}
+}
+
+/**
+ * ファイルのワークスペースフォルダでレビューが有効になっているかを判定する
+ */
+function isReviewEnabled(uri: vscode.Uri): boolean {
+	return vscode.workspace
+		.getConfiguration('llmLint', uri)
+		.get<boolean>('enabled', true)
+}
 
 function isProgrammingLanguage(languageId: string): boolean {
 	const ids = new Set([
@@ -516,41 +854,34 @@ function isProgrammingLanguage(languageId: string): boolean {
 }
 
 /**
- * 指定されたパスが除外パターンにマッチするか、または包含パターンにマッチしないかを判定する
- * @param fsPath ファイルシステムパス
+ * 指定されたファイルが除外パターンにマッチするか、または包含パターンにマッチしないかを判定する
+ * パターンはファイルが含まれるワークスペースフォルダの設定を使用する
+ * @param uri ファイルのURI
  * @returns true:除外する、false:処理対象とする
  */
-function shouldExclude(fsPath: string): boolean {
+function shouldExclude(uri: vscode.Uri): boolean {
 	const { relative } = require('path')
 	const { minimatch } = require('minimatch')
+	const fsPath = uri.fsPath
 
-	// ワークスペースのフォルダを取得
-	const workspaceFolders = vscode.workspace.workspaceFolders
-	if (!workspaceFolders || workspaceFolders.length === 0) {
-		return false // ワークスペースがなければ除外しない
-	}
-
-	// ファイルのワークスペースからの相対パスを取得
-	let relativePath: string | null = null
-	for (const folder of workspaceFolders) {
-		const folderPath = folder.uri.fsPath
-		if (fsPath.startsWith(folderPath)) {
-			relativePath = relative(folderPath, fsPath)
-			break
-		}
-	}
-
-	if (relativePath === null) {
+	// ファイルが含まれるワークスペースフォルダを取得
+	const folder = vscode.workspace.getWorkspaceFolder(uri)
+	if (!folder) {
 		return false // ワークスペース外のファイルは除外しない
 	}
 
-	// 相対パスをフォワードスラッシュに正規化（Windowsの互換性のため）
-	relativePath = relativePath.replace(/\\/g, '/')
+	// ファイルのワークスペースフォルダからの相対パスを取得し、
+	// フォワードスラッシュに正規化（Windowsの互換性のため）
+	const relativePath: string = relative(folder.uri.fsPath, fsPath).replace(
+		/\\/g,
+		'/'
+	)
+	const patterns = getFilePatterns(uri)
 
 	// includeパターンが指定されている場合、どれかにマッチすれば処理対象に
-	if (INCLUDE_PATTERNS.length > 0) {
-		const included = INCLUDE_PATTERNS.some((pattern) =>
-			minimatch(relativePath!, pattern, { dot: true, matchBase: true })
+	if (patterns.include.length > 0) {
+		const included = patterns.include.some((pattern) =>
+			minimatch(relativePath, pattern, { dot: true, matchBase: true })
 		)
 		// includeパターンにマッチしない場合は除外
 		if (!included) {
@@ -562,8 +893,8 @@ function shouldExclude(fsPath: string): boolean {
 	}
 
 	// excludeパターンにマッチする
-	return EXCLUDE_PATTERNS.some((pattern) =>
-		minimatch(relativePath!, pattern, { dot: true, matchBase: true })
+	return patterns.exclude.some((pattern) =>
+		minimatch(relativePath, pattern, { dot: true, matchBase: true })
 	)
 }
 
@@ -581,14 +912,53 @@ export async function activate(ctx: vscode.ExtensionContext) {
 
 	ctx.subscriptions.push(treeView)
 
+	// APIキーは設定ファイルではなく SecretStorage に保存する
+	setSecretStorage(ctx.secrets)
+
+	reviewCache = new ReviewCache(ctx.globalStorageUri, LLM_REVIEWER_CONSOLE)
+
+	// ルールファイルは変更を監視して自動で再読み込みする
+	projectRulesStore = new ProjectRulesStore(LLM_REVIEWER_CONSOLE)
+	ctx.subscriptions.push(projectRulesStore)
+	await projectRulesStore.loadAll()
+
+	// 非表示にした指摘を読み込み、変更されたらレビュー結果を表示し直す
+	dismissedStore = new DismissedFindingsStore(LLM_REVIEWER_CONSOLE)
+	ctx.subscriptions.push(
+		dismissedStore,
+		dismissedStore.onDidChange(() => republishFindings()),
+		vscode.window.createTreeView('llmReviewerDismissedView', {
+			treeDataProvider: new DismissedTreeDataProvider(dismissedStore),
+		})
+	)
+	await dismissedStore.loadAll()
+
+	// ベースラインがある場合は、ベースラインに含まれない指摘のみを表示する
+	baselineStore = new BaselineStore(LLM_REVIEWER_CONSOLE)
+	ctx.subscriptions.push(
+		baselineStore,
+		baselineStore.onDidChange(() => republishFindings())
+	)
+	await baselineStore.loadAll()
+	showBaselineFindings = vscode.workspace
+		.getConfiguration()
+		.get<boolean>('llmLint.showBaselineFindings', false)
+
 	const { default: PQueue } = await import('p-queue')
-	const queue = new PQueue({ concurrency: 1 })
+	reviewQueue = new PQueue({ concurrency: 1 })
 
-	const lintIfNeeded = (doc: vscode.TextDocument) => {
+	const lintIfNeeded = (doc: vscode.TextDocument, changesOnly = false) => {
 		if (doc.isUntitled) return
 		if (!isProgrammingLanguage(doc.languageId)) return
+		// レビューが無効になっているワークスペースフォルダのファイルはスキップ
+		if (!isReviewEnabled(doc.uri)) {
+			LLM_REVIEWER_CONSOLE.appendLine(
+				`[llm-reviewer] llmLint.enabled によりレビューが無効なため ${doc.fileName} をスキップします`
+			)
+			return
+		}
 		// 除外パターンに一致するファイルはスキップ
-		if (shouldExclude(doc.uri.fsPath)) {
+		if (shouldExclude(doc.uri)) {
 			LLM_REVIEWER_CONSOLE.appendLine(
 				`[llm-reviewer] Skipping lint for ${doc.fileName} (excluded by pattern)`
 			)
@@ -614,7 +984,8 @@ export async function activate(ctx: vscode.ExtensionContext) {
 			return
 		}
 		lastRunMap.set(uri, now)
-		queue.add(() => lintDocument(doc), { throwOnTimeout: false })
+		// LLMへのリクエストは lintDocument 内でキューに追加される
+		void lintDocument(doc, { changesOnly, useCache: true })
 	}
 
 	// 自動レビューのオンオフを設定（ユーザー設定から読み込む）
@@ -637,7 +1008,7 @@ export async function activate(ctx: vscode.ExtensionContext) {
 			const editor = vscode.window.activeTextEditor
 			if (!editor) {
 				vscode.window.showInformationMessage(
-					'レビュー対象のファイルを開いてください'
+					vscode.l10n.t('Open a file to review')
 				)
 				return
 			}
@@ -645,22 +1016,34 @@ export async function activate(ctx: vscode.ExtensionContext) {
 			const doc = editor.document
 			if (doc.isUntitled) {
 				vscode.window.showInformationMessage(
-					'保存されたファイルのみレビュー可能です'
+					vscode.l10n.t('Only saved files can be reviewed')
 				)
 				return
 			}
 
 			if (!isProgrammingLanguage(doc.languageId)) {
 				vscode.window.showInformationMessage(
-					'サポート対象の言語ファイルではありません'
+					vscode.l10n.t("This file's language is not supported")
+				)
+				return
+			}
+
+			if (!isReviewEnabled(doc.uri)) {
+				vscode.window.showInformationMessage(
+					vscode.l10n.t(
+						'Review is disabled for this workspace folder (llmLint.enabled)'
+					)
 				)
 				return
 			}
 
 			// 除外パターンに一致するファイルはスキップ
-			if (shouldExclude(doc.uri.fsPath)) {
+			if (shouldExclude(doc.uri)) {
 				vscode.window.showInformationMessage(
-					`${doc.fileName} は除外パターンに一致するため、レビューできません`
+					vscode.l10n.t(
+						'{0} matches an exclude pattern and cannot be reviewed',
+						doc.fileName
+					)
 				)
 				return
 			}
@@ -671,15 +1054,66 @@ export async function activate(ctx: vscode.ExtensionContext) {
 		}
 	)
 
+	// 変更箇所のみのレビュー実行コマンドを登録
+	const reviewChangesCommand = vscode.commands.registerCommand(
+		'llm-reviewer.reviewChanges',
+		async () => {
+			const editor = vscode.window.activeTextEditor
+			if (!editor) {
+				vscode.window.showInformationMessage(
+					vscode.l10n.t('Open a file to review')
+				)
+				return
+			}
+
+			const doc = editor.document
+			if (doc.isUntitled) {
+				vscode.window.showInformationMessage(
+					vscode.l10n.t('Only saved files can be reviewed')
+				)
+				return
+			}
+
+			if (!isProgrammingLanguage(doc.languageId)) {
+				vscode.window.showInformationMessage(
+					vscode.l10n.t("This file's language is not supported")
+				)
+				return
+			}
+
+			if (!isReviewEnabled(doc.uri)) {
+				vscode.window.showInformationMessage(
+					vscode.l10n.t(
+						'Review is disabled for this workspace folder (llmLint.enabled)'
+					)
+				)
+				return
+			}
+
+			if (shouldExclude(doc.uri)) {
+				vscode.window.showInformationMessage(
+					vscode.l10n.t(
+						'{0} matches an exclude pattern and cannot be reviewed',
+						doc.fileName
+					)
+				)
+				return
+			}
+
+			lastRunMap.set(doc.uri.toString(), 0) // クールダウンをリセット
+			await lintDocument(doc, { changesOnly: true })
+		}
+	)
+
 	// 自動レビューのオンオフを切り替えるコマンドを登録
 	const toggleAutoReviewCommand = vscode.commands.registerCommand(
 		'llm-reviewer.toggleAutoReview',
 		() => {
 			autoReviewEnabled = !autoReviewEnabled
 			vscode.window.showInformationMessage(
-				`ファイル保存時の自動レビューを${
-					autoReviewEnabled ? '有効' : '無効'
-				}にしました`
+				autoReviewEnabled
+					? vscode.l10n.t('Automatic review on save is enabled')
+					: vscode.l10n.t('Automatic review on save is disabled')
 			)
 		}
 	)
@@ -699,24 +1133,551 @@ export async function activate(ctx: vscode.ExtensionContext) {
 				)
 
 			vscode.window.showInformationMessage(
-				`ファイルオープン時の自動レビューを${
-					autoReviewOnOpenEnabled ? '有効' : '無効'
-				}にしました`
+				autoReviewOnOpenEnabled
+					? vscode.l10n.t('Automatic review on open is enabled')
+					: vscode.l10n.t('Automatic review on open is disabled')
 			)
 		}
 	)
 
-	// ファイル保存時のイベントハンドラを登録（自動レビュー機能）
-	const onSaveSubscription = vscode.workspace.onDidSaveTextDocument((doc) => {
-		if (autoReviewEnabled) {
-			lintIfNeeded(doc)
-		}
-	})
-
-	// ファイルオープン時のイベントハンドラを登録（自動レビュー機能）
-	const onOpenSubscription = vscode.window.onDidChangeActiveTextEditor(
-		(editor) => {
-			if (editor && autoReviewOnOpenEnabled) {
+	// LLMサーバのAPIキーを設定するコマンドを登録
+	const setApiKeyCommand = vscode.commands.registerCommand(
+		'llm-reviewer.setApiKey',
+		async () => {
+			// APIキーは、アクティブなエディタのファイルの設定のLLMサーバにのみ送信する
+			const { baseUrl } = getReviewSettings(
+				vscode.window.activeTextEditor?.document.uri
+			)
+			const origin = getUrlOrigin(baseUrl)
+			if (!origin) {
+				vscode.window.showErrorMessage(
+					vscode.l10n.t(
+						'The base URL of the LLM server is invalid: {0}',
+						baseUrl
+					)
+				)
+				return
+			}
+			const apiKey = await vscode.window.showInputBox({
+				title: vscode.l10n.t('API key for the LLM server'),
+				prompt: vscode.l10n.t(
+					'The API key is only sent to {0}. Save an empty value to delete the API key',
+					origin
+				),
+				password: true,
+				ignoreFocusOut: true,
+			})
+			// キャンセルされた場合は何もしない
+			if (apiKey === undefined) {
+				return
+			}
+			if (apiKey.trim() === '') {
+				await deleteApiKey()
+				vscode.window.showInformationMessage(
+					vscode.l10n.t('The API key has been deleted')
+				)
+			} else {
+				await storeApiKey(apiKey.trim(), origin)
+				vscode.window.showInformationMessage(
+					vscode.l10n.t('The API key has been saved')
+				)
+			}
+		}
+	)
+
+	// ワークスペース全体のレビューコマンドを登録
+	const reviewWorkspaceCommand = vscode.commands.registerCommand(
+		'llm-reviewer.reviewWorkspace',
+		async () => {
+			if (!vscode.workspace.workspaceFolders?.length) {
+				vscode.window.showInformationMessage(
+					vscode.l10n.t('Open a workspace folder')
+				)
+				return
+			}
+			const uris = await findReviewTargetFiles()
+			await reviewFiles(uris, vscode.l10n.t('LLM Review: Workspace'))
+		}
+	)
+
+	// フォルダ単位のレビューコマンドを登録（エクスプローラーのコンテキストメニュー）
+	const reviewFolderCommand = vscode.commands.registerCommand(
+		'llm-reviewer.reviewFolder',
+		async (folderUri?: vscode.Uri) => {
+			// コマンドパレットから実行された場合はフォルダを選択してもらう
+			if (!folderUri) {
+				const selected = await vscode.window.showOpenDialog({
+					canSelectFiles: false,
+					canSelectFolders: true,
+					canSelectMany: false,
+					openLabel: vscode.l10n.t('Review'),
+				})
+				folderUri = selected?.[0]
+			}
+			if (!folderUri) {
+				return
+			}
+			const uris = await findReviewTargetFiles(folderUri)
+			await reviewFiles(
+				uris,
+				vscode.l10n.t(
+					'LLM Review: {0}',
+					vscode.workspace.asRelativePath(folderUri)
+				)
+			)
+		}
+	)
+
+	// レビュー結果のキャッシュを削除するコマンドを登録
+	const clearCacheCommand = vscode.commands.registerCommand(
+		'llm-reviewer.clearCache',
+		async () => {
+			try {
+				await reviewCache?.clear()
+				vscode.window.showInformationMessage(
+					vscode.l10n.t('The review cache has been cleared')
+				)
+			} catch (error) {
+				vscode.window.showErrorMessage(
+					vscode.l10n.t(
+						'Failed to clear the cache: {0}',
+						String(error)
+					)
+				)
+			}
+		}
+	)
+
+	// レビュー結果をファイルに出力するコマンドを登録
+	const exportResultsCommand = vscode.commands.registerCommand(
+		'llm-reviewer.exportResults',
+		exportResults
+	)
+
+	// 指摘を非表示にするコマンドを登録
+	// TreeViewのコンテキストメニュー（ReviewItem）とクイックフィックス（URIと指摘）から呼び出される
+	const dismissFindingCommand = vscode.commands.registerCommand(
+		'llm-reviewer.dismissFinding',
+		async (
+			target?: ReviewItem | vscode.Uri | FindingReference,
+			targetFinding?: ReviewFinding
+		) => {
+			const { uri, finding } = resolveFindingTarget(target, targetFinding)
+			if (!uri || !finding || !dismissedStore) {
+				return
+			}
+			try {
+				await dismissedStore.dismiss(uri, finding)
+				LLM_REVIEWER_CONSOLE.appendLine(
+					`[llm-reviewer] 指摘を非表示にしました: ${finding.message}`
+				)
+			} catch (error) {
+				vscode.window.showErrorMessage(
+					vscode.l10n.t(
+						'Could not dismiss the finding: {0}',
+						error instanceof Error ? error.message : String(error)
+					)
+				)
+			}
+		}
+	)
+
+	// 指摘の修正案を適用するコマンドを登録（ホバーのコマンドリンクから実行する）
+	const applyFixCommand = vscode.commands.registerCommand(
+		'llm-reviewer.applyFix',
+		async (
+			target?: vscode.Uri | FindingReference,
+			targetFinding?: ReviewFinding
+		) => {
+			const { uri, finding } = resolveFindingTarget(target, targetFinding)
+			if (!uri || !finding) {
+				return
+			}
+			const doc = await vscode.workspace.openTextDocument(uri)
+			// レビュー後に編集され、修正案を適用できなくなった場合
+			if (!canApplySuggestedFix(doc, finding)) {
+				vscode.window.showWarningMessage(
+					vscode.l10n.t(
+						'The suggested fix can no longer be applied because the code has changed'
+					)
+				)
+				return
+			}
+			await vscode.workspace.applyEdit(
+				createSuggestedFixEdit(doc.uri, finding)
+			)
+		}
+	)
+
+	// 指摘について質問できる会話パネルを開くコマンドを登録
+	const explanationPanels = new ExplanationPanelManager(LLM_REVIEWER_CONSOLE)
+	const explainFindingCommand = vscode.commands.registerCommand(
+		'llm-reviewer.explainFinding',
+		async (
+			target?: ReviewItem | vscode.Uri | FindingReference,
+			targetFinding?: ReviewFinding
+		) => {
+			const { uri, finding } = resolveFindingTarget(target, targetFinding)
+			if (!uri || !finding) {
+				return
+			}
+			try {
+				await explanationPanels.show(uri, finding)
+			} catch (error) {
+				vscode.window.showErrorMessage(
+					vscode.l10n.t(
+						'Could not open the explanation: {0}',
+						error instanceof Error ? error.message : String(error)
+					)
+				)
+			}
+		}
+	)
+
+	// 非表示にした指摘を元に戻すコマンドを登録
+	const restoreFindingCommand = vscode.commands.registerCommand(
+		'llm-reviewer.restoreFinding',
+		async (item?: DismissedItem) => {
+			if (!item || !dismissedStore) {
+				return
+			}
+			try {
+				await dismissedStore.restore(item.folder, item.entry)
+			} catch (error) {
+				vscode.window.showErrorMessage(
+					vscode.l10n.t(
+						'Could not restore the finding: {0}',
+						String(error)
+					)
+				)
+			}
+		}
+	)
+
+	// 現在のレビュー結果をベースラインとして記録するコマンドを登録
+	const createBaselineCommand = vscode.commands.registerCommand(
+		'llm-reviewer.createBaseline',
+		async () => {
+			// 抑制コメントの付いた指摘と非表示にした指摘は記録しない
+			const results = [...publishedFindings.values()].map(
+				({ doc, findings }) => ({
+					uri: doc.uri,
+					findings: getVisibleFindings(doc, findings),
+				})
+			)
+			const total = results.reduce(
+				(sum, { findings }) => sum + findings.length,
+				0
+			)
+			if (total === 0) {
+				const action = await vscode.window.showInformationMessage(
+					vscode.l10n.t(
+						'There are no findings to record in the baseline. Review the workspace first'
+					),
+					vscode.l10n.t('Review Workspace')
+				)
+				if (action) {
+					await vscode.commands.executeCommand(
+						'llm-reviewer.reviewWorkspace'
+					)
+				}
+				return
+			}
+
+			const record = vscode.l10n.t('Record')
+			const answer = await vscode.window.showInformationMessage(
+				vscode.l10n.t(
+					'Record {0} findings in {1} files as the baseline? From now on only findings not in the baseline are shown',
+					total,
+					results.length
+				),
+				{ modal: true },
+				record
+			)
+			if (answer !== record) {
+				return
+			}
+			try {
+				const count = await baselineStore!.create(results)
+				vscode.window.showInformationMessage(
+					vscode.l10n.t(
+						'Recorded {0} findings in the baseline',
+						count
+					)
+				)
+			} catch (error) {
+				vscode.window.showErrorMessage(
+					vscode.l10n.t(
+						'Could not create the baseline: {0}',
+						String(error)
+					)
+				)
+			}
+		}
+	)
+
+	// ベースラインに含まれる指摘の表示を切り替えるコマンドを登録
+	const toggleBaselineFindingsCommand = vscode.commands.registerCommand(
+		'llm-reviewer.toggleBaselineFindings',
+		() => {
+			showBaselineFindings = !showBaselineFindings
+			vscode.workspace
+				.getConfiguration()
+				.update(
+					'llmLint.showBaselineFindings',
+					showBaselineFindings,
+					vscode.ConfigurationTarget.Workspace
+				)
+			republishFindings()
+
+			vscode.window.showInformationMessage(
+				showBaselineFindings
+					? vscode.l10n.t('Findings in the baseline are now shown')
+					: vscode.l10n.t('Findings in the baseline are now hidden')
+			)
+		}
+	)
+
+	// レビュー結果のまとめ方を切り替えるコマンドを登録
+	const groupFindingsCommand = vscode.commands.registerCommand(
+		'llm-reviewer.groupFindings',
+		async () => {
+			const options: Array<
+				vscode.QuickPickItem & { value: TreeGroupBy }
+			> = [
+				{ label: vscode.l10n.t('Group by file'), value: 'file' },
+				{
+					label: vscode.l10n.t('Group by severity'),
+					value: 'severity',
+				},
+				{
+					label: vscode.l10n.t('Group by category'),
+					value: 'category',
+				},
+			]
+			const picked = await vscode.window.showQuickPick(
+				options.map((option) => ({
+					...option,
+					description:
+						option.value === reviewTreeProvider.groupBy
+							? vscode.l10n.t('Current')
+							: undefined,
+				})),
+				{ placeHolder: vscode.l10n.t('How to group the findings') }
+			)
+			if (picked) {
+				reviewTreeProvider.setGroupBy(picked.value)
+			}
+		}
+	)
+
+	// レビュー結果の並べ方を切り替えるコマンドを登録
+	const sortFindingsCommand = vscode.commands.registerCommand(
+		'llm-reviewer.sortFindings',
+		async () => {
+			const options: Array<vscode.QuickPickItem & { value: TreeSortBy }> =
+				[
+					{
+						label: vscode.l10n.t('Sort by position'),
+						value: 'position',
+					},
+					{
+						label: vscode.l10n.t('Sort by severity'),
+						value: 'severity',
+					},
+					{
+						label: vscode.l10n.t('Sort by message'),
+						value: 'message',
+					},
+				]
+			const picked = await vscode.window.showQuickPick(
+				options.map((option) => ({
+					...option,
+					description:
+						option.value === reviewTreeProvider.sortBy
+							? vscode.l10n.t('Current')
+							: undefined,
+				})),
+				{ placeHolder: vscode.l10n.t('How to sort the findings') }
+			)
+			if (picked) {
+				reviewTreeProvider.setSortBy(picked.value)
+			}
+		}
+	)
+
+	// レビュー結果を重要度と文字列で絞り込むコマンドを登録
+	const filterFindingsCommand = vscode.commands.registerCommand(
+		'llm-reviewer.filterFindings',
+		async () => {
+			type FilterOption = vscode.QuickPickItem & {
+				minSeverity?: FindingSeverity
+				action?: 'search' | 'clear'
+			}
+			const options: FilterOption[] = [
+				...SEVERITY_ORDER.map((severity) => ({
+					label: vscode.l10n.t(
+						'{0} or higher',
+						severityLabel(severity)
+					),
+					description:
+						severity === reviewTreeProvider.minSeverity
+							? vscode.l10n.t('Current')
+							: undefined,
+					minSeverity: severity,
+				})),
+				{ label: '', kind: vscode.QuickPickItemKind.Separator },
+				{
+					label: vscode.l10n.t('Search text...'),
+					description: reviewTreeProvider.searchText || undefined,
+					action: 'search',
+				},
+				{ label: vscode.l10n.t('Clear filter'), action: 'clear' },
+			]
+			const picked = await vscode.window.showQuickPick(options, {
+				placeHolder: vscode.l10n.t(
+					'Minimum severity of the findings to show'
+				),
+			})
+			if (!picked) {
+				return
+			}
+			if (picked.minSeverity) {
+				reviewTreeProvider.setFilter({
+					minSeverity: picked.minSeverity,
+				})
+			} else if (picked.action === 'clear') {
+				reviewTreeProvider.clearFilter()
+			} else if (picked.action === 'search') {
+				const searchText = await vscode.window.showInputBox({
+					prompt: vscode.l10n.t(
+						'Show only findings whose message, code or file path contains this text (leave empty to show all)'
+					),
+					value: reviewTreeProvider.searchText,
+				})
+				if (searchText !== undefined) {
+					reviewTreeProvider.setFilter({ searchText })
+				}
+			}
+		}
+	)
+
+	// すべてのレビュー結果をクリアするコマンドを登録
+	const clearAllFindingsCommand = vscode.commands.registerCommand(
+		'llm-reviewer.clearAllFindings',
+		() => {
+			batchReviewedUris.clear()
+			reviewTreeProvider.clearAllReviews()
+			LLM_REVIEWER_CONSOLE.appendLine(
+				'[llm-reviewer] すべてのレビュー結果をクリアしました'
+			)
+		}
+	)
+
+	// 指摘の内容をクリップボードにコピーするコマンドを登録
+	const copyFindingMessageCommand = vscode.commands.registerCommand(
+		'llm-reviewer.copyFindingMessage',
+		async (item?: ReviewItem) => {
+			if (!item?.finding) {
+				return
+			}
+			await vscode.env.clipboard.writeText(item.finding.message)
+		}
+	)
+
+	// 指摘のあるファイルをもう一度レビューするコマンドを登録
+	const reviewFileAgainCommand = vscode.commands.registerCommand(
+		'llm-reviewer.reviewFileAgain',
+		async (target?: ReviewItem | FindingReference) => {
+			const { uri } = resolveFindingTarget(target)
+			if (!uri) {
+				return
+			}
+			const doc = await vscode.workspace.openTextDocument(uri)
+			lastRunMap.set(doc.uri.toString(), 0) // クールダウンをリセット
+			await lintDocument(doc)
+		}
+	)
+
+	// 指摘の位置を開き、問題タブを表示するコマンドを登録
+	const revealInProblemsCommand = vscode.commands.registerCommand(
+		'llm-reviewer.revealInProblems',
+		async (item?: ReviewItem) => {
+			if (!item?.resourceUri) {
+				return
+			}
+			await vscode.window.showTextDocument(item.resourceUri, {
+				selection: item.finding?.range,
+			})
+			await vscode.commands.executeCommand(
+				'workbench.actions.view.problems'
+			)
+		}
+	)
+
+	// ファイルのレビュー結果をクリアするコマンドを登録
+	const clearFileFindingsCommand = vscode.commands.registerCommand(
+		'llm-reviewer.clearFileFindings',
+		(item?: ReviewItem) => {
+			if (!item?.resourceUri) {
+				return
+			}
+			const uriString = item.resourceUri.toString()
+			batchReviewedUris.delete(uriString)
+			reviewTreeProvider.clearFileReviews(uriString)
+		}
+	)
+
+	// 設定の変更を反映する（LLMの接続先やパターンなどはレビューのたびに読み込む）
+	const onConfigurationSubscription =
+		vscode.workspace.onDidChangeConfiguration((event) => {
+			if (!event.affectsConfiguration('llmLint')) {
+				return
+			}
+			LLM_REVIEWER_CONSOLE.appendLine(
+				'[llm-reviewer] 設定の変更を反映しました'
+			)
+			if (event.affectsConfiguration('llmLint.autoReviewOnOpen')) {
+				autoReviewOnOpenEnabled = vscode.workspace
+					.getConfiguration()
+					.get<boolean>('llmLint.autoReviewOnOpen', true)
+			}
+			// レビューが無効になったワークスペースフォルダのレビュー結果はクリアする
+			if (event.affectsConfiguration('llmLint.enabled')) {
+				for (const uriString of [...publishedFindings.keys()]) {
+					const uri = vscode.Uri.parse(uriString)
+					if (!isReviewEnabled(uri)) {
+						batchReviewedUris.delete(uriString)
+						reviewTreeProvider.clearFileReviews(uriString)
+					}
+				}
+			}
+			if (
+				event.affectsConfiguration('llmLint.showBaselineFindings') ||
+				event.affectsConfiguration('llmLint.showInProblemsTab')
+			) {
+				showBaselineFindings = vscode.workspace
+					.getConfiguration()
+					.get<boolean>('llmLint.showBaselineFindings', false)
+				republishFindings()
+			}
+		})
+
+	// ファイル保存時のイベントハンドラを登録（自動レビュー機能）
+	const onSaveSubscription = vscode.workspace.onDidSaveTextDocument((doc) => {
+		if (autoReviewEnabled) {
+			// 設定に応じて保存時は変更箇所のみをレビューする
+			const changesOnly = vscode.workspace
+				.getConfiguration('llmLint', doc.uri)
+				.get<boolean>('reviewChangesOnSave', false)
+			lintIfNeeded(doc, changesOnly)
+		}
+	})
+
+	// ファイルオープン時のイベントハンドラを登録（自動レビュー機能）
+	const onOpenSubscription = vscode.window.onDidChangeActiveTextEditor(
+		(editor) => {
+			if (editor && autoReviewOnOpenEnabled) {
 				const doc = editor.document
 				lintIfNeeded(doc)
 			}
@@ -736,12 +1697,86 @@ export async function activate(ctx: vscode.ExtensionContext) {
 
 	ctx.subscriptions.push(
 		reviewCommand,
+		reviewChangesCommand,
 		toggleAutoReviewCommand,
 		toggleAutoReviewOnOpenCommand,
+		setApiKeyCommand,
+		reviewWorkspaceCommand,
+		reviewFolderCommand,
+		clearCacheCommand,
+		exportResultsCommand,
+		dismissFindingCommand,
+		applyFixCommand,
+		explanationPanels,
+		explainFindingCommand,
+		restoreFindingCommand,
+		createBaselineCommand,
+		toggleBaselineFindingsCommand,
+		groupFindingsCommand,
+		sortFindingsCommand,
+		filterFindingsCommand,
+		clearAllFindingsCommand,
+		copyFindingMessageCommand,
+		reviewFileAgainCommand,
+		revealInProblemsCommand,
+		clearFileFindingsCommand,
+		onConfigurationSubscription,
 		onSaveSubscription,
 		onOpenSubscription,
+		vscode.languages.registerHoverProvider(
+			{ scheme: 'file' },
+			findingHoverProvider
+		),
+		vscode.languages.registerCodeActionsProvider(
+			{ scheme: 'file' },
+			fixCodeActionProvider,
+			{
+				providedCodeActionKinds:
+					LLMFixCodeActionProvider.providedCodeActionKinds,
+			}
+		),
+		// 編集に合わせて指摘の位置をずらし、編集が止まってから位置の特定と表示の更新を行う
+		vscode.workspace.onDidChangeTextDocument((event) => {
+			const uriString = event.document.uri.toString()
+			const published = publishedFindings.get(uriString)
+			if (!published || event.contentChanges.length === 0) {
+				return
+			}
+			published.findings = shiftFindingsThroughChanges(
+				published.findings,
+				event.contentChanges
+			)
+
+			clearTimeout(relocateTimers.get(uriString))
+			relocateTimers.set(
+				uriString,
+				setTimeout(() => {
+					relocateTimers.delete(uriString)
+					const current = publishedFindings.get(uriString)
+					if (current) {
+						publishFindings(
+							current.doc,
+							relocateEditedFindings(
+								current.doc,
+								current.findings
+							),
+							false
+						)
+					}
+				}, RELOCATE_DELAY_MS)
+			)
+		}),
+		new vscode.Disposable(() => {
+			for (const timer of relocateTimers.values()) {
+				clearTimeout(timer)
+			}
+			relocateTimers.clear()
+		}),
 		// ファイルが閉じられたときにレビューをクリアする
 		vscode.workspace.onDidCloseTextDocument((doc) => {
+			if (batchReviewedUris.has(doc.uri.toString())) {
+				return
+			}
 			reviewTreeProvider.clearFileReviews(doc.uri.toString())
 		}),
 		LLM_REVIEWER_CONSOLE,
@@ -750,7 +1785,9 @@ export async function activate(ctx: vscode.ExtensionContext) {
 
 	// コマンドの存在をユーザーに通知
 	vscode.window.showInformationMessage(
-		'LLMレビューワーが有効になりました。ファイル保存時とオープン時に自動レビューされます。'
+		vscode.l10n.t(
+			'LLM Reviewer is active. Files are reviewed automatically when saved and opened.'
+		)
 	)
 }
 
@@ -758,96 +1795,582 @@ export async function activate(ctx: vscode.ExtensionContext) {
  * レビュー結果をVSCode診断機能に反映する関数
  * これによりエディタ上に問題がマークされ、「問題」タブにも表示されます
  */
-function updateDiagnostics(doc: vscode.TextDocument, reviewText: string): void {
-	// 診断結果の配列
-	const diagnostics: vscode.Diagnostic[] = []
-
-	// レビューテキストを行ごとに分割して処理
-	const lines = reviewText
-		.split('\n')
-		.map((line) => line.trim())
-		.filter((line) => line.length > 0)
-
-	for (const line of lines) {
-		// 重要度と内容を抽出する正規表現
-		// 形式: 「[重要度]: 指摘内容」 または 「[重要度]: 指摘内容 [Ln X, Col Y]」
-		const severityMatch = line.match(
-			/^\[(ERROR|WARNING|INFO|HINT)\]\s*:?\s*(.+?)(?:\s+\[Ln\s+(\d+)(?:,\s*Col\s+(\d+))?\])?$/i
-		)
-
-		if (severityMatch) {
-			const severityText = severityMatch[1].toUpperCase()
-			const content = severityMatch[2].trim()
-			// 行番号と列番号を取得（存在する場合）
-			const lineNumber = severityMatch[3]
-				? parseInt(severityMatch[3], 10) - 1
-				: 0
-			const colNumber = severityMatch[4]
-				? parseInt(severityMatch[4], 10)
-				: 0
-
-			// 重要度を判定しVSCodeの診断重要度に変換
-			let diagnosticSeverity: vscode.DiagnosticSeverity
-			switch (severityText) {
-				case 'ERROR':
-					diagnosticSeverity = vscode.DiagnosticSeverity.Error
-					break
-				case 'WARNING':
-					diagnosticSeverity = vscode.DiagnosticSeverity.Warning
-					break
-				case 'INFO':
-					diagnosticSeverity = vscode.DiagnosticSeverity.Information
-					break
-				case 'HINT':
-					diagnosticSeverity = vscode.DiagnosticSeverity.Hint
-					break
-				default:
-					diagnosticSeverity = vscode.DiagnosticSeverity.Information
-			}
-
-			// 行番号が有効範囲内かチェック
-			const safeLineNumber = Math.max(
-				0,
-				Math.min(lineNumber, doc.lineCount - 1)
-			)
-
-			// 行の内容を取得し、範囲を作成
-			const line = doc.lineAt(safeLineNumber)
-			const range = new vscode.Range(
-				safeLineNumber,
-				Math.min(colNumber, line.text.length),
-				safeLineNumber,
-				line.text.length
-			)
+function updateDiagnostics(
+	doc: vscode.TextDocument,
+	findings: ReviewFinding[],
+	verbose = true
+): void {
+	// 解決済みの可能性がある指摘は、古い位置に表示し続けないように除外する
+	const diagnostics = findings
+		.filter((finding) => !finding.possiblyResolved)
+		.map((finding) => {
+			// 位置が特定できなかった指摘は先頭行に表示する
+			const range =
+				finding.range ??
+				new vscode.Range(0, 0, 0, doc.lineAt(0).text.length)
 
 			// 診断情報を作成
 			const diagnostic = new vscode.Diagnostic(
 				range,
-				content,
-				diagnosticSeverity
+				formatDiagnosticMessage(finding),
+				toDiagnosticSeverity(finding.severity)
 			)
 
+			// ベースラインに含まれる指摘はグレーで表示する
+			if (finding.inBaseline) {
+				diagnostic.severity = vscode.DiagnosticSeverity.Hint
+				diagnostic.tags = [vscode.DiagnosticTag.Unnecessary]
+			}
+
 			// ソースをLLM Reviewerに設定
 			diagnostic.source = 'LLM Reviewer'
-
-			// 診断情報を配列に追加
-			diagnostics.push(diagnostic)
-		}
-	}
+			return diagnostic
+		})
 
 	// 診断コレクションを更新（以前の診断はすべて削除される）
 	diagnosticCollection.set(doc.uri, diagnostics)
 
+	if (verbose) {
+		LLM_REVIEWER_CONSOLE.appendLine(
+			`[llm-reviewer] ${diagnostics.length} diagnostics added to ${doc.fileName}`
+		)
+	}
+}
+
+/**
+ * 指定した行範囲に位置する指摘のみを残す
+ * 位置を特定できなかった指摘は変更箇所に含まれるか判断できないため除外する
+ */
+function filterFindingsByRanges(
+	findings: ReviewFinding[],
+	ranges: LineRange[]
+): ReviewFinding[] {
+	return findings.filter(
+		(finding) =>
+			finding.range !== undefined &&
+			isLineInRanges(finding.range.start.line, ranges)
+	)
+}
+
+/**
+ * ドキュメントのレビューをキュー経由でLLMにリクエストする
+ * ファイル全体をレビューする場合は、トークン数の上限に合わせてチャンクに分割する
+ */
+async function requestReview(
+	doc: vscode.TextDocument,
+	changedRanges: LineRange[] | undefined,
+	signal: AbortSignal,
+	onTokens: (count: number) => void
+): Promise<ReviewFinding[]> {
+	if (!reviewQueue) {
+		throw new Error(
+			vscode.l10n.t('The review queue has not been initialized')
+		)
+	}
+	const queue = reviewQueue
+	const rules = projectRulesStore?.getRules(doc)
+	const settings = getReviewSettings(doc.uri)
+
+	// 変更箇所のみのレビューは抜粋を送信するため分割しない
+	const targets: ReviewTarget[] = changedRanges
+		? [{ changedRanges }]
+		: (
+				await splitDocumentIntoChunks(
+					doc,
+					settings.maxChunkTokens,
+					LLM_REVIEWER_CONSOLE
+				)
+		  ).map((chunk, _, chunks) => ({
+				// 分割されていない場合はファイル全体としてレビューする
+				chunk: chunks.length > 1 ? chunk : undefined,
+		  }))
+
+	// 1つのリクエストが失敗した場合は結果を使用しないため、
+	// このドキュメントの残りのリクエスト（ほかのチャンクやモデル）を中断する
+	const controller = new AbortController()
+	const abort = () => controller.abort()
+	if (signal.aborted) {
+		abort()
+	}
+	signal.addEventListener('abort', abort)
+
+	// アンサンブルの場合は、モデルごとにすべての範囲のレビューをキューに追加する
+	const members = expandEnsembleSettings(settings)
+	let results: Array<{ model: string; findings: ReviewFinding[] }>
+	try {
+		// ほかのファイルの定義はチャンクやモデルごとではなく、ドキュメントごとに1回だけ取得する
+		// （定義のホバーに、すでに表示している指摘のカードが含まれないようにする）
+		const relatedDefinitions = await findingHoverProvider.suppressWhile(
+			() =>
+				getRelatedDefinitions(
+					doc,
+					LLM_REVIEWER_CONSOLE,
+					changedRanges,
+					controller.signal
+				)
+		)
+		results = await Promise.all(
+			members.map(async (member) => {
+				const findings = await Promise.all(
+					targets.map((target) =>
+						queue
+							.add(
+								() =>
+									requestLLMReviewWithFunctionCalling(
+										doc,
+										LLM_REVIEWER_CONSOLE,
+										{
+											...target,
+											signal: controller.signal,
+											onTokens,
+											rules,
+											relatedDefinitions,
+										},
+										member.settings
+									),
+								{
+									throwOnTimeout: true,
+									signal: controller.signal,
+								}
+							)
+							.catch((error) => {
+								abort()
+								throw error
+							})
+					)
+				)
+				return {
+					model: member.name,
+					findings: dedupeFindings(findings.flat()),
+				}
+			})
+		)
+	} finally {
+		signal.removeEventListener('abort', abort)
+	}
+	if (members.length === 1) {
+		return results[0].findings
+	}
+
+	const merged = mergeEnsembleFindings(results, settings.minAgreement)
 	LLM_REVIEWER_CONSOLE.appendLine(
-		`[llm-reviewer] ${diagnostics.length} diagnostics added to ${doc.fileName}`
+		`[llm-reviewer] アンサンブル: ${results
+			.map((result) => `${result.model} ${result.findings.length}件`)
+			.join(', ')} → ${merged.length}件（${Math.min(
+			settings.minAgreement,
+			members.length
+		)}モデル以上が一致）`
 	)
+	return merged
 }
 
-async function lintDocument(doc: vscode.TextDocument): Promise<void> {
+/**
+ * 経過時間と受信トークン数を通知に表示しながらレビューを実行する
+ * @returns 指摘事項。キャンセルされた場合は null
+ */
+async function requestReviewWithProgress(
+	doc: vscode.TextDocument,
+	changedRanges?: LineRange[]
+): Promise<ReviewFinding[] | null> {
+	const fileName = doc.uri.path.substring(doc.uri.path.lastIndexOf('/') + 1)
+	return vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title: vscode.l10n.t('LLM Review: {0}', fileName),
+			cancellable: true,
+		},
+		async (progress, token) => {
+			// キャンセルボタンでキュー内の待機中のリクエストと実行中のリクエストを中断する
+			const controller = new AbortController()
+			const cancelSubscription = token.onCancellationRequested(() =>
+				controller.abort()
+			)
+
+			const startedAt = Date.now()
+			let receivedTokens = 0
+			const reportProgress = () => {
+				const elapsedSeconds = Math.floor(
+					(Date.now() - startedAt) / 1000
+				)
+				progress.report({
+					message: vscode.l10n.t(
+						'{0}s elapsed / {1} tokens received',
+						elapsedSeconds,
+						receivedTokens
+					),
+				})
+			}
+			reportProgress()
+			const timer = setInterval(reportProgress, 1000)
+
+			try {
+				return await requestReview(
+					doc,
+					changedRanges,
+					controller.signal,
+					(count) => {
+						receivedTokens += count
+					}
+				)
+			} catch (error) {
+				if (controller.signal.aborted) {
+					return null
+				}
+				throw error
+			} finally {
+				clearInterval(timer)
+				cancelSubscription.dispose()
+			}
+		}
+	)
+}
+
+/**
+ * 指摘事項をTreeViewと問題タブに反映する
+ * 抑制コメントの付いた指摘と、非表示にした指摘は表示しない
+ * @param verbose false の場合はログを出力しない（編集のたびに呼び出す場合）
+ * @returns 表示した指摘事項
+ */
+function publishFindings(
+	doc: vscode.TextDocument,
+	allFindings: ReviewFinding[],
+	verbose = true
+): ReviewFinding[] {
+	publishedFindings.set(doc.uri.toString(), { doc, findings: allFindings })
+	let findings = getVisibleFindings(doc, allFindings)
+
+	// ベースラインに含まれる指摘は、表示する場合のみグレーで表示する
+	const inBaseline = baselineStore?.matcher(doc.uri)
+	if (inBaseline) {
+		findings = showBaselineFindings
+			? findings.map((finding) =>
+					inBaseline(finding)
+						? { ...finding, inBaseline: true }
+						: finding
+			  )
+			: findings.filter((finding) => !inBaseline(finding))
+	}
+
+	// TreeViewとホバーを更新
+	reviewTreeProvider.update(doc.uri.toString(), findings)
+	findingHoverProvider.setFindings(doc.uri, findings)
+
+	// 問題タブへの反映設定を確認
+	const showInProblemsTab = vscode.workspace
+		.getConfiguration('llmLint', doc.uri)
+		.get<boolean>('showInProblemsTab', true)
+
+	// 設定がtrueの場合のみ診断機能（問題タブ）に反映
+	if (showInProblemsTab) {
+		updateDiagnostics(doc, findings, verbose)
+		// 診断結果に対応する修正案をクイックフィックスとして登録
+		fixCodeActionProvider.setFindings(doc.uri, findings)
+		if (verbose) {
+			LLM_REVIEWER_CONSOLE.appendLine(
+				`[llm-reviewer] レビュー結果を問題タブに反映しました`
+			)
+		}
+	} else {
+		// 設定が変更された場合に備えて、反映済みの診断結果を削除する
+		diagnosticCollection.delete(doc.uri)
+		fixCodeActionProvider.clearFindings(doc.uri)
+		if (verbose) {
+			LLM_REVIEWER_CONSOLE.appendLine(
+				`[llm-reviewer] 設定により問題タブへの反映はスキップされました`
+			)
+		}
+	}
+	return findings
+}
+
+/**
+ * コマンドの引数から対象のファイルと指摘を取得する
+ * TreeViewのアイテム、ファイルと指摘（クイックフィックス）、指摘の参照（ホバーのコマンドリンク）を受け付ける
+ */
+function resolveFindingTarget(
+	target: ReviewItem | vscode.Uri | FindingReference | undefined,
+	targetFinding?: ReviewFinding
+): { uri?: vscode.Uri; finding?: ReviewFinding } {
+	if (!target) {
+		return {}
+	}
+	if (target instanceof ReviewItem) {
+		return { uri: target.resourceUri, finding: target.finding }
+	}
+	if (target instanceof vscode.Uri) {
+		return { uri: target, finding: targetFinding }
+	}
+	// 参照はレビュー結果の保持している指摘から、識別子と行番号で探す
+	const finding = publishedFindings
+		.get(target.uri)
+		?.findings.find(
+			(f) =>
+				f.range?.start.line === target.line &&
+				createFingerprint(f) === target.fingerprint
+		)
+	return { uri: vscode.Uri.parse(target.uri), finding }
+}
+
+/**
+ * 抑制コメントの付いた指摘と、非表示にした指摘を取り除く
+ */
+function getVisibleFindings(
+	doc: vscode.TextDocument,
+	findings: ReviewFinding[]
+): ReviewFinding[] {
+	const visible = filterSuppressedFindings(findings, doc.getText())
+	return dismissedStore?.filterFindings(doc.uri, visible) ?? visible
+}
+
+/**
+ * 保持しているレビュー結果をすべて表示し直す
+ */
+function republishFindings(): void {
+	for (const { doc, findings } of [...publishedFindings.values()]) {
+		publishFindings(doc, findings)
+	}
+}
+
+/**
+ * includePatterns / excludePatterns に従ってレビュー対象のファイルを検索する
+ * パターンはワークスペースフォルダごとの設定を使用し、レビューが無効なフォルダは除外する
+ * @param folderUri 指定した場合はフォルダ内のみを検索する
+ */
+async function findReviewTargetFiles(
+	folderUri?: vscode.Uri
+): Promise<vscode.Uri[]> {
+	// パスを含まないパターンは、shouldExclude と同様に任意の階層のファイル名にマッチさせる
+	const toGlob = (pattern: string) =>
+		pattern.includes('/') ? pattern : `**/${pattern}`
+
+	const searchRoots = folderUri
+		? [folderUri]
+		: (vscode.workspace.workspaceFolders ?? []).map((folder) => folder.uri)
+
+	const found = new Map<string, vscode.Uri>()
+	for (const root of searchRoots) {
+		if (!isReviewEnabled(root)) {
+			continue
+		}
+		const patterns = getFilePatterns(root)
+		const includes =
+			patterns.include.length > 0
+				? patterns.include.map(toGlob)
+				: ['**/*']
+		// 除外パターンはワークスペースフォルダからの相対パスで判定する
+		const folder = vscode.workspace.getWorkspaceFolder(root)
+		const exclude =
+			patterns.exclude.length > 0
+				? new vscode.RelativePattern(
+						folder?.uri ?? root,
+						`{${patterns.exclude.map(toGlob).join(',')}}`
+				  )
+				: undefined
+
+		for (const include of includes) {
+			for (const uri of await vscode.workspace.findFiles(
+				new vscode.RelativePattern(root, include),
+				exclude
+			)) {
+				found.set(uri.toString(), uri)
+			}
+		}
+	}
+	return [...found.values()].sort((a, b) => a.path.localeCompare(b.path))
+}
+
+/**
+ * 複数のファイルをキュー経由でまとめてレビューし、最後に重要度ごとの件数を表示する
+ */
+async function reviewFiles(uris: vscode.Uri[], title: string): Promise<void> {
+	if (uris.length === 0) {
+		vscode.window.showInformationMessage(
+			vscode.l10n.t('There are no files to review')
+		)
+		return
+	}
+	const review = vscode.l10n.t('Review')
+	const answer = await vscode.window.showInformationMessage(
+		vscode.l10n.t('Review {0} files?', uris.length),
+		{ modal: true },
+		review
+	)
+	if (answer !== review) {
+		return
+	}
+
+	const counts: Record<FindingSeverity, number> = {
+		ERROR: 0,
+		WARNING: 0,
+		INFO: 0,
+		HINT: 0,
+	}
+	let reviewedFiles = 0
+	let failedFiles = 0
+
+	const cancelled = await vscode.window.withProgress(
+		{
+			location: vscode.ProgressLocation.Notification,
+			title,
+			cancellable: true,
+		},
+		async (progress, token) => {
+			const controller = new AbortController()
+			const cancelSubscription = token.onCancellationRequested(() =>
+				controller.abort()
+			)
+			try {
+				for (const [index, uri] of uris.entries()) {
+					if (controller.signal.aborted) {
+						return true
+					}
+					progress.report({
+						message: `${index + 1}/${
+							uris.length
+						} ${vscode.workspace.asRelativePath(uri)}`,
+						increment: index === 0 ? 0 : 100 / uris.length,
+					})
+
+					let findings: ReviewFinding[] | null
+					try {
+						findings = await reviewFileForBatch(
+							uri,
+							controller.signal
+						)
+					} catch (error) {
+						if (controller.signal.aborted) {
+							return true
+						}
+						// 1ファイルの失敗で全体を止めない
+						failedFiles++
+						LLM_REVIEWER_CONSOLE.appendLine(
+							`[llm-reviewer] ${uri.fsPath} のレビューに失敗: ${error}`
+						)
+						continue
+					}
+					if (!findings) {
+						continue
+					}
+					reviewedFiles++
+					for (const finding of findings) {
+						counts[finding.severity]++
+					}
+				}
+				return false
+			} finally {
+				cancelSubscription.dispose()
+			}
+		}
+	)
+
+	const summary = [
+		vscode.l10n.t('Errors: {0}', counts.ERROR),
+		vscode.l10n.t('Warnings: {0}', counts.WARNING),
+		vscode.l10n.t('Info: {0}', counts.INFO),
+		vscode.l10n.t('Hints: {0}', counts.HINT),
+	].join(', ')
+	const result = cancelled
+		? vscode.l10n.t(
+				'Review cancelled: {0} files ({1})',
+				reviewedFiles,
+				summary
+		  )
+		: vscode.l10n.t(
+				'Review completed: {0} files ({1})',
+				reviewedFiles,
+				summary
+		  )
+	const message =
+		failedFiles > 0
+			? vscode.l10n.t('{0}, failed: {1} files', result, failedFiles)
+			: result
+	LLM_REVIEWER_CONSOLE.appendLine(`[llm-reviewer] ${message}`)
+	vscode.window.showInformationMessage(message)
+}
+
+/**
+ * バッチレビューで1ファイルをレビューし、結果を反映する
+ * @returns 指摘事項。レビュー対象外の言語の場合は null
+ */
+async function reviewFileForBatch(
+	uri: vscode.Uri,
+	signal: AbortSignal
+): Promise<ReviewFinding[] | null> {
+	const doc = await vscode.workspace.openTextDocument(uri)
+	if (!isProgrammingLanguage(doc.languageId)) {
+		return null
+	}
+
+	const cacheKey = createReviewCacheKey(doc)
+	let findings = await reviewCache?.get(cacheKey)
+	if (!findings) {
+		const version = doc.version
+		findings = await requestReview(doc, undefined, signal, () => {})
+		await reviewCache?.set(cacheKey, findings)
+		// レビュー中に編集された場合は、編集後のドキュメントで位置を特定し直す
+		if (doc.version !== version) {
+			findings = relocateFindings(doc, findings)
+		}
+	}
+
+	batchReviewedUris.add(uri.toString())
+	return publishFindings(doc, findings)
+}
+
+interface LintOptions {
+	// Gitの差分に含まれる変更箇所のみをレビューする
+	changesOnly?: boolean
+	// 内容が変わっていなければキャッシュからレビュー結果を復元する
+	useCache?: boolean
+}
+
+/**
+ * キャッシュキーを作成する
+ * レビュー結果に影響する設定が変わった場合は、別のキーになるようにする
+ */
+function createReviewCacheKey(
+	doc: vscode.TextDocument,
+	changedRanges?: LineRange[]
+): string {
+	const settings = getReviewSettings(doc.uri)
+	const config = vscode.workspace.getConfiguration('llmLint', doc.uri)
+	return ReviewCache.createKey(doc.getText(), [
+		PROMPT_VERSION,
+		settings.provider,
+		settings.model,
+		settings.outputStrategy,
+		settings.locationMode,
+		settings.maxChunkTokens,
+		settings.diffContextLines,
+		settings.language,
+		settings.verifyFindings &&
+			`${settings.verificationThreshold}:${settings.lowConfidenceAction}`,
+		settings.ensembleModels.length > 0 && [
+			settings.ensembleModels,
+			settings.minAgreement,
+		],
+		// 参照先のファイルの変更は検知できないため、設定のみをキーに含める
+		config.get<boolean>('crossFileContext', false) &&
+			config.get<number>('crossFileContextMaxTokens', 1000),
+		doc.languageId,
+		projectRulesStore?.getRules(doc) ?? null,
+		changedRanges ?? 'full',
+	])
+}
+
+async function lintDocument(
+	doc: vscode.TextDocument,
+	options: LintOptions = {}
+): Promise<void> {
+	const { changesOnly = false, useCache = false } = options
 	const uriString = doc.uri.toString() // URI文字列（TreeViewのキーとして使用）
 	const filePath = doc.fileName // 実際のファイルパスを取得
 
-	LLM_REVIEWER_CONSOLE.appendLine(`[llm-reviewer] Start lint → ${filePath}`)
+	LLM_REVIEWER_CONSOLE.appendLine(
+		`[llm-reviewer] Start lint → ${filePath}${
+			changesOnly ? ' (変更箇所のみ)' : ''
+		}`
+	)
 
 	// アウトプットチャネルを確実に表示
 	LLM_REVIEWER_CONSOLE.show(true)
@@ -856,60 +2379,185 @@ async function lintDocument(doc: vscode.TextDocument): Promise<void> {
 		// Lint実行前に該当ファイルのレビューをクリア
 		reviewTreeProvider.clearFileReviews(uriString)
 
+		// 変更箇所のみをレビューする場合は、Gitの差分から変更行を取得
+		let changedRanges: LineRange[] | undefined
+		if (changesOnly) {
+			const ranges = await getChangedLineRanges(doc, LLM_REVIEWER_CONSOLE)
+			if (ranges === null) {
+				LLM_REVIEWER_CONSOLE.appendLine(
+					`[llm-reviewer] 差分を取得できないため、ファイル全体をレビューします`
+				)
+			} else if (ranges.length === 0) {
+				LLM_REVIEWER_CONSOLE.appendLine(
+					`[llm-reviewer] ${filePath} に変更箇所がないため、レビューをスキップしました`
+				)
+				diagnosticCollection.delete(doc.uri)
+				return
+			} else {
+				changedRanges = ranges
+			}
+		}
+
 		// 診断結果もクリア
 		diagnosticCollection.delete(doc.uri)
 
-		// ステータスバーに表示
-		const statusMessage =
-			vscode.window.setStatusBarMessage('LLMによるレビュー実行中...')
+		// 内容が変わっていなければキャッシュから復元する
+		const cacheKey = createReviewCacheKey(doc, changedRanges)
+		const cachedFindings = useCache
+			? await reviewCache?.get(cacheKey)
+			: undefined
+		if (cachedFindings) {
+			LLM_REVIEWER_CONSOLE.appendLine(
+				`[llm-reviewer] ${filePath} のレビュー結果をキャッシュから復元しました`
+			)
+			publishFindings(doc, cachedFindings)
+			return
+		}
 
-		let fullText: string
+		let findings: ReviewFinding[]
+		const version = doc.version
 		try {
-			fullText = await requestLLMReviewWithFunctionCalling(
-				doc,
-				LLM_REVIEWER_CONSOLE
-			)
+			const result = await requestReviewWithProgress(doc, changedRanges)
+			if (result === null) {
+				LLM_REVIEWER_CONSOLE.appendLine(
+					`[llm-reviewer] ${filePath} のレビューはキャンセルされました`
+				)
+				return
+			}
+			findings = result
 		} catch (llmError) {
 			LLM_REVIEWER_CONSOLE.appendLine(
 				`[llm-reviewer] LLMリクエスト中にエラー: ${llmError}`
 			)
-			vscode.window.showErrorMessage(`LLMリクエストエラー: ${llmError}`)
-			statusMessage.dispose()
+			vscode.window.showErrorMessage(
+				vscode.l10n.t('LLM request error: {0}', String(llmError))
+			)
 			return
 		}
 
-		// TreeViewを更新
-		reviewTreeProvider.update(uriString, fullText)
-
-		// 問題タブへの反映設定を確認
-		const showInProblemsTab = vscode.workspace
-			.getConfiguration()
-			.get<boolean>('llmLint.showInProblemsTab', true)
+		// 変更箇所の外にある指摘は反映しない
+		if (changedRanges) {
+			findings = filterFindingsByRanges(findings, changedRanges)
+		}
 
-		// 設定がtrueの場合のみ診断機能（問題タブ）に反映
-		if (showInProblemsTab) {
-			updateDiagnostics(doc, fullText)
-			LLM_REVIEWER_CONSOLE.appendLine(
-				`[llm-reviewer] レビュー結果を問題タブに反映しました`
-			)
-		} else {
-			LLM_REVIEWER_CONSOLE.appendLine(
-				`[llm-reviewer] 設定により問題タブへの反映はスキップされました`
-			)
+		await reviewCache?.set(cacheKey, findings)
+		// レビュー中に編集された場合は、編集後のドキュメントで位置を特定し直す
+		if (doc.version !== version) {
+			findings = relocateFindings(doc, findings)
 		}
+		publishFindings(doc, findings)
 
 		vscode.window.showInformationMessage(
-			`LLMレビューが完了しました: ${filePath}`
+			vscode.l10n.t('LLM review completed: {0}', filePath)
 		)
-
-		// ステータスバーメッセージをクリア
-		statusMessage.dispose()
 	} catch (error) {
 		LLM_REVIEWER_CONSOLE.appendLine(
 			`[llm-reviewer] Error during lint for ${filePath}: ${error}`
 		)
-		vscode.window.showErrorMessage(`LLM Lint Error: ${error}`)
+		vscode.window.showErrorMessage(
+			vscode.l10n.t('LLM Lint error: {0}', String(error))
+		)
 		// エラーが発生した場合も該当ファイルのレビューをクリア
 		reviewTreeProvider.clearFileReviews(uriString)
 	}
 }
+
+/**
+ * TreeViewに表示中のレビュー結果を、選択した形式でファイルに出力する
+ */
+async function exportResults(): Promise<void> {
+	const results = reviewTreeProvider.getAllFindings()
+	if (results.length === 0) {
+		vscode.window.showInformationMessage(
+			vscode.l10n.t('There are no review results to export')
+		)
+		return
+	}
+
+	const picked = await vscode.window.showQuickPick(
+		[
+			{
+				label: 'SARIF',
+				description: vscode.l10n.t(
+					'SARIF 2.1.0 (for CI and code scanning tools)'
+				),
+				format: 'sarif' as ExportFormat,
+			},
+			{
+				label: 'Markdown',
+				description: vscode.l10n.t(
+					'Report grouped by file and severity'
+				),
+				format: 'markdown' as ExportFormat,
+			},
+			{
+				label: 'JSON',
+				description: vscode.l10n.t('Review results as-is'),
+				format: 'json' as ExportFormat,
+			},
+		],
+		{ placeHolder: vscode.l10n.t('Select an export format') }
+	)
+	if (!picked) {
+		return
+	}
+
+	const extension = EXPORT_FILE_EXTENSIONS[picked.format]
+	const workspaceFolder = vscode.workspace.workspaceFolders?.[0]
+	const target = await vscode.window.showSaveDialog({
+		defaultUri: workspaceFolder
+			? vscode.Uri.joinPath(
+					workspaceFolder.uri,
+					`llm-review.${extension}`
+			  )
+			: undefined,
+		filters: { [picked.label]: [extension] },
+		saveLabel: vscode.l10n.t('Export'),
+	})
+	if (!target) {
+		return
+	}
+
+	const files: ExportedFile[] = results.map(({ uri, findings }) => ({
+		path: vscode.workspace.getWorkspaceFolder(uri)
+			? vscode.workspace.asRelativePath(uri, false)
+			: uri.toString(),
+		inWorkspace: vscode.workspace.getWorkspaceFolder(uri) !== undefined,
+		findings,
+	}))
+
+	try {
+		await vscode.workspace.fs.writeFile(
+			target,
+			Buffer.from(
+				exportFindings(
+					picked.format,
+					files,
+					getReviewSettings().language
+				),
+				'utf8'
+			)
+		)
+		LLM_REVIEWER_CONSOLE.appendLine(
+			`[llm-reviewer] レビュー結果を出力しました: ${target.fsPath}`
+		)
+		const open = vscode.l10n.t('Open')
+		const action = await vscode.window.showInformationMessage(
+			vscode.l10n.t(
+				'Exported the review results: {0}',
+				vscode.workspace.asRelativePath(target)
+			),
+			open
+		)
+		if (action === open) {
+			await vscode.window.showTextDocument(target)
+		}
+	} catch (error) {
+		vscode.window.showErrorMessage(
+			vscode.l10n.t(
+				'Failed to export the review results: {0}',
+				String(error)
+			)
+		)
+	}
+}
@@ -0,0 +1,126 @@
+/**
+ * 指摘の説明
+ * 指摘と該当箇所のコード、ファイルの内容をモデルに送信し、
+ * 指摘の根拠や修正方法の説明と、続けての質問への回答を求める
+ */
+
+import {
+	ChatRequestOptions,
+	ReviewLogger,
+	sendChatRequest,
+} from './chat-client'
+import { estimateTokens } from './chunk-splitter'
+import { LineRange } from './line-ranges'
+import { formatCodeLines } from './review-core'
+import { LocatedReviewItem } from './review-item'
+import { PROMPT_MESSAGES } from './review-prompts'
+import { ReviewSettings } from './review-settings'
+import { SourceText } from './source-text'
+
+// ファイル全体を送信できない場合に送信する、指摘の前後のコードの行数
+const EXPLANATION_CONTEXT_LINES = 40
+
+/**
+ * 指摘についての会話のメッセージ
+ */
+export interface ExplanationMessage {
+	role: 'user' | 'assistant'
+	content: string
+}
+
+/**
+ * 指摘の説明を依頼する最初のメッセージを作成する
+ * ファイル全体が llmLint.maxChunkTokens に収まる場合はファイル全体を、
+ * 収まらない場合は指摘の前後のコードを行番号付きで含める
+ */
+export function createExplanationRequest(
+	item: LocatedReviewItem,
+	source: SourceText,
+	settings: ReviewSettings
+): ExplanationMessage {
+	const messages = PROMPT_MESSAGES[settings.language]
+	const explanation = messages.explanation
+	const wholeFile: LineRange = {
+		startLine: 0,
+		endLine: source.lineCount - 1,
+	}
+	const region: LineRange =
+		!item.range ||
+		settings.maxChunkTokens <= 0 ||
+		estimateTokens(source.text) <= settings.maxChunkTokens
+			? wholeFile
+			: {
+					startLine: Math.max(
+						0,
+						item.range.start.line - EXPLANATION_CONTEXT_LINES
+					),
+					endLine: Math.min(
+						source.lineCount - 1,
+						item.range.end.line + EXPLANATION_CONTEXT_LINES
+					),
+			  }
+
+	const content = [
+		`${messages.filePath}: ${source.fileName}`,
+		`${messages.language}: ${source.languageId}`,
+		'',
+		explanation.codeHeader(region.startLine + 1, region.endLine + 1),
+		'```',
+		formatCodeLines(source, region, true),
+		'```',
+		'',
+		explanation.findingHeader,
+		...(item.range
+			? [
+					`- ${explanation.location(
+						item.range.start.line + 1,
+						item.range.end.line + 1
+					)}`,
+			  ]
+			: []),
+		`- ${explanation.severity}: ${item.severity}`,
+		`- ${explanation.message}: ${item.message}`,
+		...(item.codeSnippet
+			? [`- ${explanation.codeSnippet}:`, '```', item.codeSnippet, '```']
+			: []),
+		...(item.suggestedFix
+			? [
+					`- ${explanation.suggestedFix}:`,
+					'```',
+					item.suggestedFix,
+					'```',
+			  ]
+			: []),
+		'',
+		...explanation.request,
+	].join('\n')
+	return { role: 'user', content }
+}
+
+/**
+ * 指摘についての会話の続きをモデルに回答させる
+ * ストリーミングが有効な場合は、受信した本文を options.onContent で順に通知する
+ * @param thread 最初の説明の依頼（createExplanationRequest）から始まる会話
+ * @returns モデルの回答
+ */
+export async function requestExplanation(
+	thread: ExplanationMessage[],
+	settings: ReviewSettings,
+	log: ReviewLogger,
+	options: ChatRequestOptions = {}
+): Promise<string> {
+	const explanation = PROMPT_MESSAGES[settings.language].explanation
+	const message = await sendChatRequest(
+		settings,
+		{
+			messages: [
+				{ role: 'system', content: explanation.system.join('\n') },
+				...thread,
+			],
+		},
+		log,
+		'指摘の説明をリクエスト中...',
+		options
+	)
+	return message?.content?.trim() ?? ''
+}
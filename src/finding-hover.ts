@@ -0,0 +1,224 @@
+import * as vscode from 'vscode'
+import { ReviewFinding, categoryLabel, severityLabel } from './review-finding'
+import { createFingerprint } from './review-item'
+import { canApplySuggestedFix } from './quick-fix'
+import { codeFence } from './exporters'
+
+/**
+ * ホバーのコマンドリンクから渡す指摘の参照
+ * コマンドリンクの引数はJSONに変換されるため、ファイルと指摘の識別子・行番号で指摘を特定する
+ */
+export interface FindingReference {
+	uri: string
+	fingerprint: string
+	// 指摘の開始行（0始まり）
+	line: number
+}
+
+// ホバーのコマンドリンクから実行を許可するコマンド
+const HOVER_COMMANDS = [
+	'llm-reviewer.applyFix',
+	'llm-reviewer.explainFinding',
+	'llm-reviewer.dismissFinding',
+	'llm-reviewer.reviewFileAgain',
+]
+
+/**
+ * 指摘の範囲にカーソルを合わせたときに、指摘の詳細をカードとして表示するホバープロバイダー
+ * 重要度・根拠・該当コード・レビューしたモデルと日時・修正案と、修正の適用などの操作を表示する
+ */
+export class FindingHoverProvider implements vscode.HoverProvider {
+	// ファイルURIをキーとして指摘事項を保持するMap
+	private _findingsByFile = new Map<string, ReviewFinding[]>()
+	// 実行中の suppressWhile の数（0より大きい間はホバーを表示しない）
+	private _suppressCount = 0
+
+	// 特定のファイルの指摘事項を更新する
+	setFindings(uri: vscode.Uri, findings: ReviewFinding[]): void {
+		this._findingsByFile.set(uri.toString(), findings)
+	}
+
+	// 特定のファイルの指摘事項をクリアする
+	clearFindings(uri: vscode.Uri): void {
+		this._findingsByFile.delete(uri.toString())
+	}
+
+	/**
+	 * 処理の実行中はホバーを表示しない
+	 * ほかのファイルの定義をホバーから取得するときに、指摘のカードがプロンプトに含まれないようにする
+	 */
+	async suppressWhile<T>(task: () => Promise<T>): Promise<T> {
+		this._suppressCount++
+		try {
+			return await task()
+		} finally {
+			this._suppressCount--
+		}
+	}
+
+	provideHover(
+		document: vscode.TextDocument,
+		position: vscode.Position
+	): vscode.Hover | undefined {
+		if (this._suppressCount > 0) {
+			return undefined
+		}
+		// 解決済みの可能性がある指摘は古い位置に表示しない
+		const findings = (
+			this._findingsByFile.get(document.uri.toString()) ?? []
+		).filter(
+			(finding) =>
+				finding.range?.contains(position) && !finding.possiblyResolved
+		)
+		if (findings.length === 0) {
+			return undefined
+		}
+		return new vscode.Hover(
+			findings.map((finding) => this.createCard(document, finding)),
+			findings.length === 1 ? findings[0].range : undefined
+		)
+	}
+
+	private createCard(
+		document: vscode.TextDocument,
+		finding: ReviewFinding
+	): vscode.MarkdownString {
+		const card = new vscode.MarkdownString(undefined, true)
+		card.isTrusted = { enabledCommands: HOVER_COMMANDS }
+
+		// 見出し: 重要度と分類
+		card.appendMarkdown(
+			`${severityIcon(finding)} **${severityLabel(finding.severity)}**`
+		)
+		if (finding.category) {
+			card.appendMarkdown(' · ')
+			card.appendText(categoryLabel(finding.category))
+		}
+		card.appendMarkdown('\n\n')
+		card.appendText(finding.message)
+		card.appendMarkdown('\n\n')
+		if (finding.rationale) {
+			card.appendText(finding.rationale)
+			card.appendMarkdown('\n\n')
+		}
+
+		if (finding.codeSnippet) {
+			card.appendMarkdown(`**${vscode.l10n.t('Matched code')}**\n`)
+			appendCodeBlock(card, finding.codeSnippet, document.languageId)
+		}
+		if (finding.suggestedFix) {
+			card.appendMarkdown(`**${vscode.l10n.t('Suggested fix')}**\n`)
+			appendCodeBlock(card, finding.suggestedFix, document.languageId)
+		}
+
+		// レビューの情報: モデル・日時・確信度・報告したモデル
+		const details = [
+			...(finding.model
+				? [vscode.l10n.t('Model: {0}', finding.model)]
+				: []),
+			...(finding.reviewedAt
+				? [
+						vscode.l10n.t(
+							'Reviewed: {0}',
+							new Date(finding.reviewedAt).toLocaleString(
+								vscode.env.language
+							)
+						),
+				  ]
+				: []),
+			...(finding.confidence !== undefined
+				? [
+						vscode.l10n.t(
+							'Confidence: {0}%',
+							Math.round(finding.confidence * 100)
+						),
+				  ]
+				: []),
+			...(finding.agreedModels
+				? [
+						vscode.l10n.t(
+							'Models: {0}',
+							finding.agreedModels.join(', ')
+						),
+				  ]
+				: []),
+		]
+		if (details.length > 0) {
+			card.appendMarkdown('---\n\n')
+			card.appendText(details.join(' · '))
+			card.appendMarkdown('\n\n')
+		}
+
+		// 操作: 修正の適用・説明・非表示・再レビュー
+		const reference: FindingReference = {
+			uri: document.uri.toString(),
+			fingerprint: createFingerprint(finding),
+			line: finding.range!.start.line,
+		}
+		const links = [
+			...(canApplySuggestedFix(document, finding)
+				? [
+						commandLink(
+							`$(lightbulb-autofix) ${vscode.l10n.t(
+								'Apply fix'
+							)}`,
+							'llm-reviewer.applyFix',
+							reference
+						),
+				  ]
+				: []),
+			commandLink(
+				`$(comment-discussion) ${vscode.l10n.t('Explain')}`,
+				'llm-reviewer.explainFinding',
+				reference
+			),
+			commandLink(
+				`$(eye-closed) ${vscode.l10n.t('Dismiss')}`,
+				'llm-reviewer.dismissFinding',
+				reference
+			),
+			commandLink(
+				`$(refresh) ${vscode.l10n.t('Review again')}`,
+				'llm-reviewer.reviewFileAgain',
+				reference
+			),
+		]
+		card.appendMarkdown(links.join(' &nbsp;|&nbsp; '))
+		return card
+	}
+}
+
+/**
+ * コードブロックを追加する
+ * appendCodeblock は区切りが固定のため、バッククォートを含むコードでもブロックが途中で閉じない区切りを使う
+ */
+function appendCodeBlock(
+	card: vscode.MarkdownString,
+	code: string,
+	languageId: string
+): void {
+	const fence = codeFence(code)
+	card.appendMarkdown(`\n${fence}${languageId}\n${code}\n${fence}\n`)
+}
+
+function severityIcon(finding: ReviewFinding): string {
+	switch (finding.severity) {
+		case 'ERROR':
+			return '$(error)'
+		case 'WARNING':
+			return '$(warning)'
+		case 'HINT':
+			return '$(lightbulb)'
+		default:
+			return '$(info)'
+	}
+}
+
+function commandLink(
+	label: string,
+	command: string,
+	reference: FindingReference
+): string {
+	const args = encodeURIComponent(JSON.stringify([reference]))
+	return `[${label}](command:${command}?${args})`
+}
@@ -0,0 +1,172 @@
+import * as vscode from 'vscode'
+import { ReviewFinding } from './review-finding'
+import { SourceText, TextRange } from './source-text'
+import { locateCodeSnippet } from './snippet-locator'
+
+/**
+ * ドキュメントの編集に合わせて指摘の位置をずらす
+ * 編集された範囲と重なる指摘は、変更後のテキストを含む範囲に広げて relocationPending とする
+ * （コードスニペットからの位置の特定は、編集が落ち着いてから relocateEditedFindings で行う）
+ * @param changes onDidChangeTextDocument で通知された変更
+ */
+export function shiftFindingsThroughChanges(
+	findings: ReviewFinding[],
+	changes: readonly vscode.TextDocumentContentChangeEvent[]
+): ReviewFinding[] {
+	// 1回の通知に含まれる変更の範囲は、いずれも変更前のドキュメントの位置で表される
+	// 後ろの変更から順に適用すれば、前にある位置はそれまでの変更の影響を受けない
+	const sortedChanges = [...changes].sort((a, b) =>
+		b.range.start.compareTo(a.range.start)
+	)
+
+	return findings.map((finding) => {
+		if (!finding.range) {
+			return finding
+		}
+
+		let range = finding.range
+		let edited = false
+		for (const change of sortedChanges) {
+			if (change.range.start.isAfterOrEqual(range.end)) {
+				// 指摘より後ろの変更
+				continue
+			}
+			if (change.range.end.isBeforeOrEqual(range.start)) {
+				// 指摘より前の変更は、変更で増減した分だけ位置をずらす
+				range = new vscode.Range(
+					shiftPosition(range.start, change),
+					shiftPosition(range.end, change)
+				)
+				continue
+			}
+			// 指摘と重なる変更は、変更後のテキストを含む範囲に広げる
+			edited = true
+			range = new vscode.Range(
+				range.start.isBefore(change.range.start)
+					? range.start
+					: change.range.start,
+				range.end.isAfter(change.range.end)
+					? shiftPosition(range.end, change)
+					: shiftPosition(change.range.end, change)
+			)
+		}
+
+		if (edited) {
+			return { ...finding, range, relocationPending: true }
+		}
+		return range.isEqual(finding.range) ? finding : { ...finding, range }
+	})
+}
+
+/**
+ * 編集された範囲と重なった指摘（relocationPending）の位置を、コードスニペットから特定し直す
+ * スニペットが見つからなくなった指摘は「解決済みの可能性あり」とし、
+ * 解決済みの可能性がある指摘も、元に戻された場合はスニペットの位置に戻す
+ */
+export function relocateEditedFindings(
+	doc: vscode.TextDocument,
+	findings: ReviewFinding[]
+): ReviewFinding[] {
+	let source: SourceText | undefined
+	const getSource = () =>
+		(source ??= new SourceText(doc.fileName, doc.languageId, doc.getText()))
+
+	return findings.map((finding) => {
+		if (!finding.relocationPending || !finding.range) {
+			return finding
+		}
+		const { relocationPending: _, ...rest } = finding
+		const range = doc.validateRange(finding.range)
+		if (!finding.codeSnippet) {
+			return { ...rest, range }
+		}
+
+		// 変更された行の付近から探し、見つからなければドキュメント全体を探す
+		const located = locateCodeSnippet(
+			finding.codeSnippet,
+			getSource(),
+			{
+				start: { line: range.start.line, character: 0 },
+				end: doc.lineAt(range.end.line).range.end,
+			},
+			finding.message
+		)
+		if (located) {
+			return {
+				...rest,
+				range: toRange(located.range),
+				locationScore: located.score,
+				possiblyResolved: false,
+			}
+		}
+		return { ...rest, range, possiblyResolved: true }
+	})
+}
+
+/**
+ * 位置を特定した後にドキュメントが編集された指摘の位置を特定し直す
+ * （レビュー中に編集された場合に使用する）
+ */
+export function relocateFindings(
+	doc: vscode.TextDocument,
+	findings: ReviewFinding[]
+): ReviewFinding[] {
+	const source = new SourceText(doc.fileName, doc.languageId, doc.getText())
+	return findings.map((finding) => {
+		if (!finding.range || !finding.codeSnippet) {
+			return finding
+		}
+		const located = locateCodeSnippet(
+			finding.codeSnippet,
+			source,
+			undefined,
+			finding.message
+		)
+		return located
+			? {
+					...finding,
+					range: toRange(located.range),
+					locationScore: located.score,
+			  }
+			: {
+					...finding,
+					range: doc.validateRange(finding.range),
+					possiblyResolved: true,
+			  }
+	})
+}
+
+/**
+ * 変更より後ろにある位置を、変更後のドキュメントの位置に変換する
+ */
+function shiftPosition(
+	position: vscode.Position,
+	change: vscode.TextDocumentContentChangeEvent
+): vscode.Position {
+	const insertedLines = change.text.split(/\r\n|\r|\n/)
+	const lineDelta =
+		insertedLines.length -
+		1 -
+		(change.range.end.line - change.range.start.line)
+	if (position.line !== change.range.end.line) {
+		return position.translate(lineDelta)
+	}
+	// 変更の終わりと同じ行にある位置は、列もずらす
+	const insertedEndCharacter =
+		insertedLines.length === 1
+			? change.range.start.character + insertedLines[0].length
+			: insertedLines[insertedLines.length - 1].length
+	return new vscode.Position(
+		position.line + lineDelta,
+		insertedEndCharacter + position.character - change.range.end.character
+	)
+}
+
+function toRange(range: TextRange): vscode.Range {
+	return new vscode.Range(
+		range.start.line,
+		range.start.character,
+		range.end.line,
+		range.end.character
+	)
+}
@@ -0,0 +1,8 @@
+// 指摘の識別子を記録するファイルの名前
+// 拡張機能とCLIの両方で読み込むため、エディタに依存しないモジュールで定義する
+
+// ワークスペースのルートに保存する、非表示にした指摘のファイル
+export const DISMISSED_FILE_NAME = '.llmlint-dismissed.json'
+
+// ワークスペースのルートに保存する、ベースラインのファイル
+export const BASELINE_FILE_NAME = '.llmlint-baseline.json'
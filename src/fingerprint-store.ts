@@ -0,0 +1,193 @@
+import * as vscode from 'vscode'
+import { FindingSeverity, createFingerprint } from './review-item'
+import { ReviewFinding } from './review-finding'
+
+/**
+ * 識別子（指摘内容とコードスニペットから作成）で記録した指摘
+ */
+export interface FingerprintEntry {
+	fingerprint: string
+	// ワークスペースフォルダからの相対パス
+	file: string
+	severity: FindingSeverity
+	message: string
+	codeSnippet?: string
+}
+
+/**
+ * 指摘の識別子をワークスペースフォルダごとのJSONファイルに保存する
+ * ファイルをリポジトリにコミットすれば、チームで共有できる
+ */
+export class FingerprintFileStore<T extends FingerprintEntry>
+	implements vscode.Disposable
+{
+	// ワークスペースフォルダのURIをキーとして記録した指摘を保持する
+	protected readonly _entriesByFolder = new Map<string, T[]>()
+	private readonly _onDidChange = new vscode.EventEmitter<void>()
+	readonly onDidChange = this._onDidChange.event
+	private readonly _disposables: vscode.Disposable[] = [this._onDidChange]
+	// ワークスペースフォルダのURIをキーとして、最後に保存したファイルの内容を保持する
+	private readonly _savedTexts = new Map<string, string>()
+
+	constructor(
+		// ワークスペースのルートに保存するファイルの名前
+		private readonly fileName: string,
+		// ファイル内で指摘の配列を保持するキー
+		private readonly listKey: string,
+		protected readonly OUTPUT: vscode.OutputChannel
+	) {
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			`**/${fileName}`
+		)
+		// git pull などで外部から変更された場合に再読み込みする
+		// 自身の保存による変更は保存時に通知済みのため、内容が保存したものと同じ場合は読み込まない
+		const reload = async (uri: vscode.Uri) => {
+			const folder = vscode.workspace.getWorkspaceFolder(uri)
+			if (!folder) {
+				return
+			}
+			const saved = this._savedTexts.get(folder.uri.toString())
+			if (
+				saved !== undefined &&
+				(await this.readText(folder)) === saved
+			) {
+				return
+			}
+			await this.load(folder)
+			this._onDidChange.fire()
+		}
+		this._disposables.push(
+			watcher,
+			watcher.onDidCreate(reload),
+			watcher.onDidChange(reload),
+			watcher.onDidDelete(reload),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.loadAll())
+		)
+	}
+
+	async loadAll(): Promise<void> {
+		this._entriesByFolder.clear()
+		await Promise.all(
+			(vscode.workspace.workspaceFolders ?? []).map((folder) =>
+				this.load(folder)
+			)
+		)
+		this._onDidChange.fire()
+	}
+
+	/**
+	 * 記録した指摘をワークスペースフォルダごとに取得する
+	 */
+	getAll(): Array<{ folder: vscode.WorkspaceFolder; entries: T[] }> {
+		return (vscode.workspace.workspaceFolders ?? [])
+			.map((folder) => ({
+				folder,
+				entries: this._entriesByFolder.get(folder.uri.toString()) ?? [],
+			}))
+			.filter(({ entries }) => entries.length > 0)
+	}
+
+	/**
+	 * 指摘が記録されているかを判定する関数を取得する
+	 */
+	matcher(uri: vscode.Uri): (finding: ReviewFinding) => boolean {
+		const location = this.locate(uri)
+		const entries = location
+			? this._entriesByFolder.get(location.folder.uri.toString())
+			: undefined
+		if (!location || !entries || entries.length === 0) {
+			return () => false
+		}
+		const fingerprints = new Set(
+			entries
+				.filter((entry) => entry.file === location.file)
+				.map((entry) => entry.fingerprint)
+		)
+		return (finding) => fingerprints.has(createFingerprint(finding))
+	}
+
+	// ファイルが含まれるワークスペースフォルダと、フォルダからの相対パスを取得する
+	protected locate(
+		uri: vscode.Uri
+	): { folder: vscode.WorkspaceFolder; file: string } | undefined {
+		const folder = vscode.workspace.getWorkspaceFolder(uri)
+		if (!folder) {
+			return undefined
+		}
+		return { folder, file: vscode.workspace.asRelativePath(uri, false) }
+	}
+
+	protected toEntry(file: string, finding: ReviewFinding): FingerprintEntry {
+		return {
+			fingerprint: createFingerprint(finding),
+			file,
+			severity: finding.severity,
+			message: finding.message,
+			codeSnippet: finding.codeSnippet,
+		}
+	}
+
+	// ファイルの内容を読み込む（ファイルがない場合は undefined）
+	private async readText(
+		folder: vscode.WorkspaceFolder
+	): Promise<string | undefined> {
+		try {
+			return Buffer.from(
+				await vscode.workspace.fs.readFile(
+					vscode.Uri.joinPath(folder.uri, this.fileName)
+				)
+			).toString('utf8')
+		} catch {
+			return undefined
+		}
+	}
+
+	private async load(folder: vscode.WorkspaceFolder): Promise<void> {
+		const key = folder.uri.toString()
+		const uri = vscode.Uri.joinPath(folder.uri, this.fileName)
+		const text = await this.readText(folder)
+		if (text === undefined) {
+			this._entriesByFolder.delete(key)
+			return
+		}
+		try {
+			const entries = (JSON.parse(text) as Record<string, unknown>)[
+				this.listKey
+			]
+			this._entriesByFolder.set(
+				key,
+				Array.isArray(entries) ? (entries as T[]) : []
+			)
+		} catch (error) {
+			this.OUTPUT.appendLine(
+				`[llm-reviewer] ${uri.fsPath} を読み込めません: ${error}`
+			)
+		}
+	}
+
+	protected async save(folder: vscode.WorkspaceFolder): Promise<void> {
+		const entries = this._entriesByFolder.get(folder.uri.toString()) ?? []
+		const data = {
+			version: 1,
+			// 差分が見やすいようにファイル・識別子の順に並べる
+			[this.listKey]: [...entries].sort(
+				(a, b) =>
+					a.file.localeCompare(b.file) ||
+					a.fingerprint.localeCompare(b.fingerprint)
+			),
+		}
+		const text = JSON.stringify(data, null, '\t') + '\n'
+		this._savedTexts.set(folder.uri.toString(), text)
+		await vscode.workspace.fs.writeFile(
+			vscode.Uri.joinPath(folder.uri, this.fileName),
+			Buffer.from(text, 'utf8')
+		)
+		this._onDidChange.fire()
+	}
+
+	dispose(): void {
+		for (const disposable of this._disposables) {
+			disposable.dispose()
+		}
+	}
+}
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode'
+import { LineRange, diffLineRanges } from './line-ranges'
+
+// 組み込みGit拡張機能のAPIのうち、ここで利用する部分のみを定義
+interface GitChange {
+	uri: vscode.Uri
+	status: number
+}
+
+interface GitRepository {
+	rootUri: vscode.Uri
+	state: {
+		indexChanges: GitChange[]
+		workingTreeChanges: GitChange[]
+		untrackedChanges?: GitChange[]
+	}
+	show(ref: string, path: string): Promise<string>
+}
+
+interface GitAPI {
+	getRepository(uri: vscode.Uri): GitRepository | null
+}
+
+interface GitExtension {
+	enabled: boolean
+	getAPI(version: 1): GitAPI
+}
+
+// Git拡張機能の Status.INDEX_ADDED と Status.UNTRACKED
+const GIT_STATUS_INDEX_ADDED = 1
+const GIT_STATUS_UNTRACKED = 7
+
+async function getGitAPI(): Promise<GitAPI | null> {
+	const extension = vscode.extensions.getExtension<GitExtension>('vscode.git')
+	if (!extension) {
+		return null
+	}
+	const gitExtension = extension.isActive
+		? extension.exports
+		: await extension.activate()
+	if (!gitExtension.enabled) {
+		return null
+	}
+	return gitExtension.getAPI(1)
+}
+
+/**
+ * HEADとエディタの内容（ステージ済みの変更と、保存していない変更を含む）の差分から、変更された行の範囲を取得する
+ * レビューは保存していない内容に対して行うため、ディスク上のファイルではなくエディタの内容と比較する
+ * @returns 変更行の範囲。Gitが利用できない、またはリポジトリ外のファイルの場合は null
+ */
+export async function getChangedLineRanges(
+	doc: vscode.TextDocument,
+	OUTPUT: vscode.OutputChannel
+): Promise<LineRange[] | null> {
+	let api: GitAPI | null
+	try {
+		api = await getGitAPI()
+	} catch (error) {
+		OUTPUT.appendLine(`[llm-reviewer] Git拡張機能の取得に失敗: ${error}`)
+		return null
+	}
+	if (!api) {
+		OUTPUT.appendLine('[llm-reviewer] Git拡張機能が利用できません')
+		return null
+	}
+
+	const repository = api.getRepository(doc.uri)
+	if (!repository) {
+		OUTPUT.appendLine(
+			`[llm-reviewer] ${doc.fileName} はGitリポジトリに含まれていません`
+		)
+		return null
+	}
+
+	// 未追跡ファイルと新しく追加したファイル（HEADにない）はファイル全体を変更箇所として扱う
+	const added = [
+		...repository.state.indexChanges,
+		...repository.state.workingTreeChanges,
+		...(repository.state.untrackedChanges ?? []),
+	].some(
+		(change) =>
+			(change.status === GIT_STATUS_UNTRACKED ||
+				change.status === GIT_STATUS_INDEX_ADDED) &&
+			change.uri.toString() === doc.uri.toString()
+	)
+	if (added) {
+		return [{ startLine: 0, endLine: Math.max(0, doc.lineCount - 1) }]
+	}
+
+	try {
+		const original = await repository.show('HEAD', doc.uri.fsPath)
+		return diffLineRanges(original, doc.getText())
+	} catch (error) {
+		OUTPUT.appendLine(
+			`[llm-reviewer] HEADのファイルの内容の取得に失敗: ${error}`
+		)
+		return null
+	}
+}
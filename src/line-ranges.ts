@@ -0,0 +1,173 @@
+/**
+ * 変更行の範囲（0始まり、endLineを含む）
+ */
+export interface LineRange {
+	startLine: number
+	endLine: number
+}
+
+// 行単位で比較する変更箇所の大きさ（変更前の行数 × 変更後の行数）の上限
+// 超える場合は、前後の一致する行を除いた範囲全体を変更行とする
+const MAX_DIFF_CELLS = 4_000_000
+
+/**
+ * unified diff を解析し、新しいファイル側で変更された行の範囲を返す
+ * 削除のみの箇所は、削除位置の行を変更行として扱う
+ * @param lineCount 新しいファイルの行数（ファイルの先頭・末尾の削除位置をファイル内に収める）
+ */
+export function parseUnifiedDiff(diff: string, lineCount: number): LineRange[] {
+	const changedLines: number[] = []
+	// 先頭の行を削除したハンク（+0,0）は newLine が -1 になるため、ハンク内かどうかは別に保持する
+	let inHunk = false
+	let newLine = 0
+
+	for (const line of diff.split('\n')) {
+		const hunkHeader = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,\d+)? @@/)
+		if (hunkHeader) {
+			inHunk = true
+			newLine = parseInt(hunkHeader[1], 10) - 1
+			continue
+		}
+		// 最初のハンクより前のヘッダ行は無視
+		if (!inHunk) {
+			continue
+		}
+		if (line.startsWith('+')) {
+			changedLines.push(newLine)
+			newLine++
+		} else if (line.startsWith('-')) {
+			changedLines.push(clampLine(newLine, lineCount))
+		} else if (line.startsWith(' ')) {
+			newLine++
+		}
+	}
+
+	return toLineRanges(changedLines)
+}
+
+/**
+ * 変更前と変更後のテキストを行単位で比較し、変更後のテキストで変更された行の範囲を返す
+ * 削除のみの箇所は、parseUnifiedDiff と同様に削除位置の行を変更行として扱う
+ */
+export function diffLineRanges(oldText: string, newText: string): LineRange[] {
+	const oldLines = oldText.split(/\r\n|\r|\n/)
+	const newLines = newText.split(/\r\n|\r|\n/)
+
+	// 前後の一致する行を除く
+	let start = 0
+	while (
+		start < oldLines.length &&
+		start < newLines.length &&
+		oldLines[start] === newLines[start]
+	) {
+		start++
+	}
+	let oldEnd = oldLines.length
+	let newEnd = newLines.length
+	while (
+		oldEnd > start &&
+		newEnd > start &&
+		oldLines[oldEnd - 1] === newLines[newEnd - 1]
+	) {
+		oldEnd--
+		newEnd--
+	}
+
+	const m = oldEnd - start
+	const n = newEnd - start
+	const changedLines: number[] = []
+	if (m === 0 || n === 0 || (m + 1) * (n + 1) > MAX_DIFF_CELLS) {
+		if (n === 0 && m > 0) {
+			changedLines.push(clampLine(start, newLines.length))
+		}
+		for (let line = start; line < newEnd; line++) {
+			changedLines.push(line)
+		}
+		return toLineRanges(changedLines)
+	}
+
+	// 最長共通部分列の長さの表（[i][j]: 変更前の i 行目以降と変更後の j 行目以降）
+	const width = n + 1
+	const lcs = new Uint32Array((m + 1) * width)
+	for (let i = m - 1; i >= 0; i--) {
+		for (let j = n - 1; j >= 0; j--) {
+			lcs[i * width + j] =
+				oldLines[start + i] === newLines[start + j]
+					? lcs[(i + 1) * width + j + 1] + 1
+					: Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1])
+		}
+	}
+
+	// 共通部分列に含まれない行を、削除は削除位置の行、追加は追加した行として記録する
+	// （unified diff と同様に、置き換えた行は削除を先に扱う）
+	let i = 0
+	let j = 0
+	while (i < m || j < n) {
+		if (i < m && j < n && oldLines[start + i] === newLines[start + j]) {
+			i++
+			j++
+		} else if (
+			i < m &&
+			(j === n || lcs[(i + 1) * width + j] >= lcs[i * width + j + 1])
+		) {
+			changedLines.push(clampLine(start + j, newLines.length))
+			i++
+		} else {
+			changedLines.push(start + j)
+			j++
+		}
+	}
+	return toLineRanges(changedLines)
+}
+
+/**
+ * 各範囲の前後に contextLines 行を加え、ドキュメントの行数内に収める
+ */
+export function expandLineRanges(
+	ranges: LineRange[],
+	contextLines: number,
+	lineCount: number
+): LineRange[] {
+	return mergeLineRanges(
+		ranges.map((range) => ({
+			startLine: Math.max(0, range.startLine - contextLines),
+			endLine: Math.min(lineCount - 1, range.endLine + contextLines),
+		}))
+	)
+}
+
+/**
+ * 指定した行がいずれかの範囲に含まれるかを判定する
+ */
+export function isLineInRanges(line: number, ranges: LineRange[]): boolean {
+	return ranges.some(
+		(range) => line >= range.startLine && line <= range.endLine
+	)
+}
+
+// 行をファイル内（0 〜 lineCount - 1）に収める
+function clampLine(line: number, lineCount: number): number {
+	return Math.max(0, Math.min(line, lineCount - 1))
+}
+
+// 変更行を結合して範囲にする
+function toLineRanges(lines: number[]): LineRange[] {
+	return mergeLineRanges(
+		lines.map((line) => ({ startLine: line, endLine: line }))
+	)
+}
+
+// 重なっている範囲や隣接している範囲を結合する
+function mergeLineRanges(ranges: LineRange[]): LineRange[] {
+	const sorted = [...ranges].sort((a, b) => a.startLine - b.startLine)
+	const merged: LineRange[] = []
+	for (const range of sorted) {
+		const last = merged[merged.length - 1]
+		if (last && range.startLine <= last.endLine + 1) {
+			last.endLine = Math.max(last.endLine, range.endLine)
+		} else {
+			merged.push({ ...range })
+		}
+	}
+	return merged
+}
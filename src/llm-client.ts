@@ -1,264 +1,186 @@
 import * as vscode from 'vscode'
+import { ReviewFinding } from './review-finding'
+import {
+	ReviewSettings,
+	getUrlOrigin,
+	resolveBaseUrl,
+	resolveReviewSettings,
+} from './review-settings'
+import {
+	RelatedDefinition,
+	ReviewRequestOptions,
+	requestReview,
+} from './review-core'
+import { LineRange } from './line-ranges'
+import { SourceText } from './source-text'
+import { collectRelatedDefinitions } from './related-definitions'
+import { ChatRequestOptions } from './chat-client'
+import { ExplanationMessage, requestExplanation } from './finding-explanation'
+
+export { PROMPT_VERSION } from './review-core'
+
+// APIキーを保存する SecretStorage のキー
+const API_KEY_SECRET = 'llmLint.apiKey'
+// APIキーを送信するLLMサーバのオリジンを保存する SecretStorage のキー
+const API_KEY_ORIGIN_SECRET = 'llmLint.apiKeyOrigin'
+
+let secretStorage: vscode.SecretStorage | undefined
 
-function cfg<T>(key: string): T {
-	return vscode.workspace.getConfiguration().get<T>(`llmLint.${key}`)!
-}
-
-export const LLM_CONFIG = {
-	MODEL: cfg<string>('model'),
-	PORT: cfg<number>('port'),
-	THREADS: cfg<number>('threads'),
+/**
+ * APIキーの読み込みに使用する SecretStorage を設定する（activate時に呼び出す）
+ */
+export function setSecretStorage(storage: vscode.SecretStorage): void {
+	secretStorage = storage
 }
 
-interface FunctionCallResponse {
-	id: string
-	object: string
-	created: number
-	model: string
-	choices: Array<{
-		index: number
-		message: {
-			role: string
-			content: string | null
-			function_call?: {
-				name: string
-				arguments: string
-			}
-			tool_calls?: Array<{
-				id: string
-				type: string
-				function: {
-					name: string
-					arguments: string
-				}
-			}>
-		}
-		finish_reason: string
-	}>
+/**
+ * APIキーを、送信するLLMサーバのオリジンとともに保存する
+ */
+export async function storeApiKey(
+	apiKey: string,
+	origin: string
+): Promise<void> {
+	await secretStorage?.store(API_KEY_SECRET, apiKey)
+	await secretStorage?.store(API_KEY_ORIGIN_SECRET, origin)
 }
 
-interface ReviewItem {
-	severity: 'ERROR' | 'WARNING' | 'INFO' | 'HINT'
-	message: string
-	codeSnippet?: string
+/**
+ * 保存したAPIキーを削除する
+ */
+export async function deleteApiKey(): Promise<void> {
+	await secretStorage?.delete(API_KEY_SECRET)
+	await secretStorage?.delete(API_KEY_ORIGIN_SECRET)
 }
 
-const reviewFunctions = [
-	{
-		type: 'function',
-		function: {
-			description: 'ソースコードのレビューを行い、問題点を指摘します',
-			name: 'reviewCode',
-			parameters: {
-				type: 'object',
-				properties: {
-					reviews: {
-						type: 'array',
-						description: 'レビュー結果の配列',
-						items: {
-							type: 'object',
-							properties: {
-								severity: {
-									type: 'string',
-									enum: ['ERROR', 'WARNING', 'INFO', 'HINT'],
-									description:
-										'問題の重要度（ERROR:実行時エラーや深刻なバグ、WARNING:パフォーマンス問題や潜在バグ、INFO:コード品質や可読性、HINT:スタイルや命名規則）',
-								},
-								message: {
-									type: 'string',
-									description:
-										'問題の内容説明（日本語で簡潔に記述）',
-								},
-								codeSnippet: {
-									type: 'string',
-									description:
-										'問題のある該当コードの断片。行番号は不要で、最小限の判別可能なコードブロックを記載。変数名や関数名など特徴的な部分を含めること',
-								},
-							},
-							required: ['severity', 'message'],
-						},
-					},
-				},
-			},
-			required: ['reviews'],
-		},
-	},
-]
-
-export async function requestLLMReviewWithFunctionCalling(
-	doc: vscode.TextDocument,
+/**
+ * LLMサーバへのリクエストに付けるAPIキーを取得する
+ * ワークスペースの設定で別のサーバが指定された場合に送信しないよう、保存したときのオリジン以外には付けない
+ * （オリジンを記録する前に保存したAPIキーは、ユーザー設定のLLMサーバのオリジンに送信する）
+ */
+async function getApiKey(
+	settings: ReviewSettings,
 	OUTPUT: vscode.OutputChannel
-): Promise<string> {
-	const prompt = [
-		'```',
-		doc.getText(),
-		'```',
-		'上記のソースコードをレビューし、問題点を診断してください。',
-		'重要度は次の4つのいずれかから選択してください: [ERROR], [WARNING], [INFO], [HINT]',
-		'- [ERROR]: 実行時エラーや深刻なバグ、セキュリティの脆弱性など',
-		'- [WARNING]: ベストプラクティス違反、パフォーマンスの問題、潜在的なバグなど',
-		'- [INFO]: コードの品質や可読性に関する提案',
-		'- [HINT]: スタイル、命名、コメント、ドキュメントなどに関する提案や改善点',
-		'指摘は直接的で簡潔な日本語で、コードの改善点を具体的に示してください。',
-		'同じ問題の繰り返しは避け、各問題は一度だけ報告してください。',
-		`ファイルパス: ${doc.fileName}`,
-		`言語: ${doc.languageId}`,
-		'コードの長さ: ' + doc.lineCount + '行',
-		'',
-		'重要：位置情報（行番号や列番号）を指定しないでください。代わりに、問題のある箇所を特定できるコードスニペットを提供してください。',
-		'コードスニペットには最小限の必要なコンテキスト（変数名、関数名、特徴的な式など）を含めてください。',
-	].join('\n')
-
-	const body = {
-		model: LLM_CONFIG.MODEL,
-		temperature: 0,
-		cpuThreads: LLM_CONFIG.THREADS,
-		stream: false,
-		messages: [{ role: 'user', content: prompt }],
-		tools: reviewFunctions,
-		tool_choice: 'auto',
+): Promise<string | undefined> {
+	const apiKey = await secretStorage?.get(API_KEY_SECRET)
+	if (!apiKey) {
+		return undefined
 	}
-
-	OUTPUT.appendLine(
-		`[llm-reviewer] Function Callingモードでリクエスト実行中...`
-	)
-
-	try {
-		const res = await fetch(
-			`http://localhost:${LLM_CONFIG.PORT}/v1/chat/completions`,
-			{
-				method: 'POST',
-				headers: { 'Content-Type': 'application/json' },
-				body: JSON.stringify(body),
-			}
+	const allowedOrigin =
+		(await secretStorage?.get(API_KEY_ORIGIN_SECRET)) ??
+		getUserSettingsOrigin()
+	if (getUrlOrigin(settings.baseUrl) !== allowedOrigin) {
+		OUTPUT.appendLine(
+			`[llm-reviewer] APIキーは ${allowedOrigin} 用に保存されているため、${settings.baseUrl} へのリクエストには付けません`
 		)
+		return undefined
+	}
+	return apiKey
+}
 
-		if (!res.ok) {
-			throw new Error(`HTTP ${res.status} ${await res.text()}`)
-		}
-
-		const data = (await res.json()) as FunctionCallResponse
-
-		try {
-			const toolCalls = data.choices?.[0]?.message?.tool_calls
-			if (toolCalls && toolCalls.length > 0) {
-				for (const toolCall of toolCalls) {
-					if (toolCall.function?.name === 'reviewCode') {
-						const functionCallResult = JSON.parse(
-							toolCall.function.arguments
-						)
-						const formattedReviews = formatFunctionCallResults(
-							functionCallResult,
-							doc,
-							OUTPUT
-						)
-
-						OUTPUT.appendLine(`[llm-reviewer] Tool Calls結果:`)
-						OUTPUT.appendLine(functionCallResult)
+// ユーザー設定（ワークスペースの設定を含まない）のLLMサーバのオリジン
+function getUserSettingsOrigin(): string | undefined {
+	const config = vscode.workspace.getConfiguration('llmLint')
+	return getUrlOrigin(
+		resolveBaseUrl(
+			config.inspect<string>('baseUrl')?.globalValue,
+			config.inspect<number>('port')?.globalValue ?? 1234
+		)
+	)
+}
 
-						return formattedReviews
-					}
-				}
-			}
-		} catch (error) {
-			OUTPUT.appendLine(
-				`[llm-reviewer] Function Calling実行エラー: ${error}`
-			)
-		}
-	} catch (error) {
-		OUTPUT.appendLine(`[llm-reviewer] Function Calling実行エラー: ${error}`)
-	}
-	return 'レビュー結果がありません'
+/**
+ * VS Code の設定からレビューの設定を作成する
+ * 設定は呼び出すたびに読み込むため、変更はウィンドウを再読み込みしなくても反映される
+ * @param scope ファイルを指定した場合は、そのファイルのワークスペースフォルダの設定を使用する
+ */
+export function getReviewSettings(scope?: vscode.Uri): ReviewSettings {
+	const config = vscode.workspace.getConfiguration('llmLint', scope)
+	return resolveReviewSettings((key) => config.get(key), vscode.env.language)
 }
 
 /**
- * LLMからのレビュー結果を解析して、コード内の位置を特定し、フォーマットする
+ * llmLint.crossFileContext が有効な場合に、ドキュメントが参照しているほかのファイルの定義を取得する
+ * @param lineRanges 指定した場合は範囲内で参照しているシンボルのみを対象とする
+ * @returns 無効な場合は undefined
  */
-function formatFunctionCallResults(
-	result: { reviews: ReviewItem[] },
+export async function getRelatedDefinitions(
 	doc: vscode.TextDocument,
-	OUTPUT: vscode.OutputChannel
-): string {
-	if (!result.reviews || !Array.isArray(result.reviews)) {
-		return 'レビュー結果がありません'
+	OUTPUT: vscode.OutputChannel,
+	lineRanges?: LineRange[],
+	signal?: AbortSignal
+): Promise<RelatedDefinition[] | undefined> {
+	const config = vscode.workspace.getConfiguration('llmLint', doc.uri)
+	if (!config.get<boolean>('crossFileContext', false)) {
+		return undefined
 	}
-	const formattedLines = result.reviews.map((review) => {
-		// コードスニペットがある場合、そのスニペットの位置をドキュメント内で検索
-		let position = findPositionByCodeSnippet(
-			review.codeSnippet,
-			doc,
-			OUTPUT
-		)
-		let locationText = ''
-
-		if (position) {
-			locationText = ` [Ln ${position.line + 1}, Col ${
-				position.character
-			}]`
-		}
-
-		return `[${review.severity}]${review.message}${locationText}`
-	})
-
-	return formattedLines.join('\n')
+	return collectRelatedDefinitions(
+		doc,
+		config.get<number>('crossFileContextMaxTokens', 1000),
+		OUTPUT,
+		lineRanges,
+		signal
+	)
 }
 
 /**
- * コードスニペットに基づいて、ドキュメント内での位置を検索する
+ * ドキュメントのレビューをLLMにリクエストする
+ * llmLint.crossFileContext が有効な場合は、ほかのファイルで定義されたシンボルの情報をプロンプトに含める
+ * （options.relatedDefinitions を指定した場合は、定義を取得せずにそれを使用する）
+ * @param settings アンサンブルの各モデルでレビューする場合に指定する（省略時はドキュメントの設定）
  */
-function findPositionByCodeSnippet(
-	snippet: string | undefined,
+export async function requestLLMReviewWithFunctionCalling(
 	doc: vscode.TextDocument,
-	OUTPUT: vscode.OutputChannel
-): vscode.Position | null {
-	if (!snippet) {
-		return null
-	}
-
-	// スニペットの正規表現エスケープ
-	const escapedSnippet = snippet
-		.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
-		.trim()
-		.replace(/\s+/g, '\\s+') // 空白文字の柔軟なマッチングを許可
-
-	try {
-		const regex = new RegExp(escapedSnippet, 'g')
-		const docText = doc.getText()
-
-		const match = regex.exec(docText)
-		if (match) {
-			const offset = match.index
-			return doc.positionAt(offset)
-		}
-	} catch (e) {
-		// 正規表現エラーを無視
-		console.error('Regex error:', e)
-	}
-
-	// より高度なマッチングを試みる（部分文字列での検索）
-	if (snippet.length > 15) {
-		// 十分な長さのスニペットの場合のみ
-		const docText = doc.getText()
-		const words = snippet
-			.split(/\s+/)
-			.filter((word) => word.length > 3) // 短すぎる単語は除外
-			.slice(0, 3) // 最初の3つの有意な単語を使用
-
-		for (const word of words) {
-			const index = docText.indexOf(word)
-			if (index >= 0) {
-				// 見つかった単語の周辺のコンテキストをチェック
-				const contextStart = Math.max(0, index - 50)
-				const contextEnd = Math.min(docText.length, index + 50)
-				const context = docText.substring(contextStart, contextEnd)
-
-				// このコンテキスト内でスニペットの一部がさらにマッチするかチェック
-				if (words.filter((w) => context.includes(w)).length >= 2) {
-					return doc.positionAt(index)
-				}
-			}
+	OUTPUT: vscode.OutputChannel,
+	options: Omit<ReviewRequestOptions, 'apiKey'> = {},
+	settings: ReviewSettings = getReviewSettings(doc.uri)
+): Promise<ReviewFinding[]> {
+	const source = new SourceText(doc.fileName, doc.languageId, doc.getText())
+	const relatedDefinitions =
+		options.relatedDefinitions ??
+		(await getRelatedDefinitions(
+			doc,
+			OUTPUT,
+			options.chunk ? [options.chunk] : options.changedRanges,
+			options.signal
+		))
+	const items = await requestReview(
+		source,
+		settings,
+		(message) => OUTPUT.appendLine(message),
+		{
+			...options,
+			relatedDefinitions,
+			apiKey: await getApiKey(settings, OUTPUT),
 		}
-	}
+	)
+	return items.map((item) => ({
+		...item,
+		range: item.range
+			? new vscode.Range(
+					item.range.start.line,
+					item.range.start.character,
+					item.range.end.line,
+					item.range.end.character
+			  )
+			: undefined,
+	}))
+}
 
-	return null
+/**
+ * 指摘についての会話の続きをLLMにリクエストする
+ * @param uri 指摘のあるファイル（ファイルのワークスペースフォルダの設定を使用する）
+ */
+export async function requestLLMExplanation(
+	uri: vscode.Uri,
+	thread: ExplanationMessage[],
+	OUTPUT: vscode.OutputChannel,
+	options: Omit<ChatRequestOptions, 'apiKey'> = {}
+): Promise<string> {
+	const settings = getReviewSettings(uri)
+	return requestExplanation(
+		thread,
+		settings,
+		(message) => OUTPUT.appendLine(message),
+		{ ...options, apiKey: await getApiKey(settings, OUTPUT) }
+	)
 }
@@ -0,0 +1,336 @@
+/**
+ * LLMサーバごとのリクエスト・レスポンス形式の違いを吸収するプロバイダー
+ */
+
+export type ProviderType = 'lmstudio' | 'openai' | 'ollama' | 'llamacpp'
+
+export interface ToolCall {
+	id: string
+	type: string
+	function: {
+		name: string
+		arguments: string
+	}
+}
+
+export interface ChatMessage {
+	role: string
+	content: string | null
+	function_call?: {
+		name: string
+		arguments: string
+	}
+	tool_calls?: ToolCall[]
+}
+
+export interface ChatRequest {
+	model: string
+	// cpuThreads の値 (0=デフォルト)
+	threads: number
+	temperature: number
+	stream: boolean
+	messages: Array<{ role: string; content: string }>
+	tools?: unknown[]
+	toolChoice?: string
+	// 出力をJSONスキーマで制約する場合のスキーマ
+	responseSchema?: { name: string; schema: object }
+}
+
+// ストリーミングの1行から取り出した差分
+interface StreamDelta {
+	content?: string
+	// index がない場合は新しいツール呼び出しとして追加する
+	toolCalls?: Array<{
+		index?: number
+		id?: string
+		name?: string
+		arguments?: string
+	}>
+	// サーバから報告された生成済みトークン数（累計）
+	completionTokens?: number
+	done?: boolean
+}
+
+export interface LLMProvider {
+	buildRequest(
+		baseUrl: string,
+		request: ChatRequest
+	): { url: string; body: object }
+	parseResponse(data: unknown): ChatMessage | undefined
+	// 解析対象外の行の場合は null を返す
+	parseStreamLine(line: string): StreamDelta | null
+}
+
+/**
+ * OpenAI互換の /v1/chat/completions を利用するプロバイダー
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+	constructor(
+		// サーバ固有のリクエストパラメータを追加する
+		private readonly extraBody: (
+			request: ChatRequest
+		) => object = () => ({})
+	) {}
+
+	buildRequest(baseUrl: string, request: ChatRequest) {
+		// ベースURLに /v1 が含まれている場合は重複させない
+		const url = /\/v1$/.test(baseUrl)
+			? `${baseUrl}/chat/completions`
+			: `${baseUrl}/v1/chat/completions`
+		return {
+			url,
+			body: {
+				model: request.model,
+				temperature: request.temperature,
+				stream: request.stream,
+				messages: request.messages,
+				...(request.tools
+					? { tools: request.tools, tool_choice: request.toolChoice }
+					: {}),
+				...(request.responseSchema
+					? {
+							response_format: {
+								type: 'json_schema',
+								json_schema: request.responseSchema,
+							},
+					  }
+					: {}),
+				...this.extraBody(request),
+			},
+		}
+	}
+
+	parseResponse(data: unknown): ChatMessage | undefined {
+		return (data as OpenAIResponse).choices?.[0]?.message
+	}
+
+	parseStreamLine(line: string): StreamDelta | null {
+		if (!line.startsWith('data:')) {
+			return null
+		}
+		const data = line.slice('data:'.length).trim()
+		if (data === '[DONE]') {
+			return { done: true }
+		}
+
+		const chunk = JSON.parse(data) as OpenAIStreamChunk
+		const delta = chunk.choices?.[0]?.delta
+		return {
+			content: delta?.content ?? undefined,
+			toolCalls: delta?.tool_calls?.map((toolCall) => ({
+				index: toolCall.index,
+				id: toolCall.id,
+				name: toolCall.function?.name,
+				arguments: toolCall.function?.arguments,
+			})),
+			completionTokens: chunk.usage?.completion_tokens,
+		}
+	}
+}
+
+interface OpenAIResponse {
+	id: string
+	object: string
+	created: number
+	model: string
+	choices: Array<{
+		index: number
+		message: ChatMessage
+		finish_reason: string
+	}>
+}
+
+// ストリーミング時に data: 行で送られてくるチャンク
+interface OpenAIStreamChunk {
+	choices?: Array<{
+		index: number
+		delta: {
+			role?: string
+			content?: string | null
+			tool_calls?: Array<{
+				index: number
+				id?: string
+				type?: string
+				function?: {
+					name?: string
+					arguments?: string
+				}
+			}>
+		}
+		finish_reason: string | null
+	}>
+	usage?: {
+		completion_tokens?: number
+	}
+}
+
+/**
+ * Ollama のネイティブAPI（/api/chat）を利用するプロバイダー
+ * ストリーミングは改行区切りのJSONで送られてくる
+ */
+class OllamaProvider implements LLMProvider {
+	buildRequest(baseUrl: string, request: ChatRequest) {
+		return {
+			url: `${baseUrl}/api/chat`,
+			body: {
+				model: request.model,
+				stream: request.stream,
+				messages: request.messages,
+				...(request.tools ? { tools: request.tools } : {}),
+				// Ollama は format にJSONスキーマを直接指定する
+				...(request.responseSchema
+					? { format: request.responseSchema.schema }
+					: {}),
+				options: {
+					temperature: request.temperature,
+					...(request.threads > 0
+						? { num_thread: request.threads }
+						: {}),
+				},
+			},
+		}
+	}
+
+	parseResponse(data: unknown): ChatMessage | undefined {
+		const message = (data as OllamaResponse).message
+		if (!message) {
+			return undefined
+		}
+		return {
+			role: message.role,
+			content: message.content ?? null,
+			tool_calls: message.tool_calls?.map((toolCall, index) => ({
+				id: `call_${index}`,
+				type: 'function',
+				function: {
+					name: toolCall.function.name,
+					arguments: JSON.stringify(toolCall.function.arguments),
+				},
+			})),
+		}
+	}
+
+	parseStreamLine(line: string): StreamDelta | null {
+		if (!line.startsWith('{')) {
+			return null
+		}
+		const chunk = JSON.parse(line) as OllamaResponse
+		return {
+			content: chunk.message?.content || undefined,
+			toolCalls: chunk.message?.tool_calls?.map((toolCall) => ({
+				name: toolCall.function.name,
+				arguments: JSON.stringify(toolCall.function.arguments),
+			})),
+			completionTokens: chunk.eval_count,
+			done: chunk.done,
+		}
+	}
+}
+
+interface OllamaResponse {
+	model: string
+	message?: {
+		role: string
+		content?: string
+		tool_calls?: Array<{
+			function: {
+				name: string
+				// Ollama は引数を文字列ではなくオブジェクトで返す
+				arguments: unknown
+			}
+		}>
+	}
+	done: boolean
+	eval_count?: number
+}
+
+export function createProvider(type: ProviderType): LLMProvider {
+	switch (type) {
+		case 'ollama':
+			return new OllamaProvider()
+		case 'llamacpp':
+			// llama.cpp server のスレッド数は起動時に指定するため送信しない
+			return new OpenAICompatibleProvider(() => ({ cache_prompt: true }))
+		case 'openai':
+			return new OpenAICompatibleProvider()
+		case 'lmstudio':
+		default:
+			return new OpenAICompatibleProvider((request) =>
+				request.threads > 0 ? { cpuThreads: request.threads } : {}
+			)
+	}
+}
+
+/**
+ * ストリーミングレスポンスを読み取り、1つのメッセージに組み立てる
+ * @param onContent 本文を受信するたびに、受信した本文（増分）を通知する
+ */
+export async function readStreamingMessage(
+	res: Response,
+	provider: LLMProvider,
+	onTokens?: (count: number) => void,
+	onContent?: (text: string) => void
+): Promise<ChatMessage> {
+	const message: ChatMessage = { role: 'assistant', content: null }
+	if (!res.body) {
+		return message
+	}
+
+	const reader = res.body.getReader()
+	const decoder = new TextDecoder()
+	let buffer = ''
+	let receivedTokens = 0
+
+	const handleLine = (line: string): boolean => {
+		const delta = provider.parseStreamLine(line)
+		if (!delta) {
+			return false
+		}
+		if (delta.content) {
+			message.content = (message.content ?? '') + delta.content
+			onContent?.(delta.content)
+		}
+		for (const toolCallDelta of delta.toolCalls ?? []) {
+			message.tool_calls ??= []
+			const index = toolCallDelta.index ?? message.tool_calls.length
+			const toolCall = (message.tool_calls[index] ??= {
+				id: '',
+				type: 'function',
+				function: { name: '', arguments: '' },
+			})
+			toolCall.id = toolCallDelta.id ?? toolCall.id
+			toolCall.function.name += toolCallDelta.name ?? ''
+			toolCall.function.arguments += toolCallDelta.arguments ?? ''
+		}
+
+		// 生成済みトークン数が送られてくる場合はその値を、なければ行数をトークン数とみなす
+		const hasOutput =
+			delta.content !== undefined || delta.toolCalls !== undefined
+		const tokens =
+			delta.completionTokens ??
+			(hasOutput ? receivedTokens + 1 : receivedTokens)
+		if (tokens > receivedTokens) {
+			onTokens?.(tokens - receivedTokens)
+			receivedTokens = tokens
+		}
+		return delta.done === true
+	}
+
+	while (true) {
+		const { done, value } = await reader.read()
+		if (done) {
+			break
+		}
+		buffer += decoder.decode(value, { stream: true })
+		const lines = buffer.split('\n')
+		buffer = lines.pop() ?? ''
+		for (const line of lines) {
+			if (handleLine(line.trim())) {
+				await reader.cancel()
+				return message
+			}
+		}
+	}
+	handleLine(buffer.trim())
+	return message
+}
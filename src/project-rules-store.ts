@@ -0,0 +1,121 @@
+import * as vscode from 'vscode'
+import {
+	ProjectRules,
+	RULES_FILE_NAMES,
+	ResolvedRules,
+	parseProjectRules,
+	resolveRulesForFile,
+} from './project-rules'
+
+/**
+ * ワークスペースフォルダごとにプロジェクトのルールファイルを読み込み、変更を監視する
+ */
+export class ProjectRulesStore implements vscode.Disposable {
+	// ワークスペースフォルダのURIをキーとしてルールを保持する
+	private readonly _rulesByFolder = new Map<string, ProjectRules>()
+	private readonly _disposables: vscode.Disposable[] = []
+
+	constructor(private readonly OUTPUT: vscode.OutputChannel) {
+		const watcher = vscode.workspace.createFileSystemWatcher(
+			`**/{${RULES_FILE_NAMES.join(',')}}`
+		)
+		const reload = (uri: vscode.Uri) => {
+			const folder = vscode.workspace.getWorkspaceFolder(uri)
+			// ワークスペースのルートに置かれたファイルのみを対象とする
+			if (
+				folder &&
+				vscode.Uri.joinPath(uri, '..').toString() ===
+					folder.uri.toString()
+			) {
+				void this.load(folder)
+			}
+		}
+		this._disposables.push(
+			watcher,
+			watcher.onDidCreate(reload),
+			watcher.onDidChange(reload),
+			watcher.onDidDelete(reload),
+			vscode.workspace.onDidChangeWorkspaceFolders(() => this.loadAll())
+		)
+	}
+
+	async loadAll(): Promise<void> {
+		this._rulesByFolder.clear()
+		await Promise.all(
+			(vscode.workspace.workspaceFolders ?? []).map((folder) =>
+				this.load(folder)
+			)
+		)
+	}
+
+	/**
+	 * ドキュメントに適用するルールを取得する
+	 * @returns ルールファイルがない場合は undefined
+	 */
+	getRules(doc: vscode.TextDocument): ResolvedRules | undefined {
+		const folder = vscode.workspace.getWorkspaceFolder(doc.uri)
+		const rules = folder
+			? this._rulesByFolder.get(folder.uri.toString())
+			: undefined
+		if (!rules) {
+			return undefined
+		}
+		return resolveRulesForFile(
+			rules,
+			vscode.workspace.asRelativePath(doc.uri, false),
+			doc.languageId
+		)
+	}
+
+	private async load(folder: vscode.WorkspaceFolder): Promise<void> {
+		const key = folder.uri.toString()
+		for (const fileName of RULES_FILE_NAMES) {
+			const uri = vscode.Uri.joinPath(folder.uri, fileName)
+			let text: string
+			try {
+				text = Buffer.from(
+					await vscode.workspace.fs.readFile(uri)
+				).toString('utf8')
+			} catch {
+				// ファイルが存在しない場合は次の候補を探す
+				continue
+			}
+
+			const { rules, errors } = parseProjectRules(text, fileName)
+			this._rulesByFolder.set(key, rules)
+			this.OUTPUT.appendLine(
+				`[llm-reviewer] プロジェクトのルールを読み込みました: ${uri.fsPath}`
+			)
+			if (errors.length > 0) {
+				for (const error of errors) {
+					this.OUTPUT.appendLine(
+						`[llm-reviewer] ルールファイルのエラー: ${error}`
+					)
+				}
+				const showOutput = vscode.l10n.t('Show Output')
+				void vscode.window
+					.showWarningMessage(
+						vscode.l10n.t(
+							'{0} has {1} errors. Entries with errors are ignored',
+							fileName,
+							errors.length
+						),
+						showOutput
+					)
+					.then((action) => {
+						if (action === showOutput) {
+							this.OUTPUT.show(true)
+						}
+					})
+			}
+			return
+		}
+		this._rulesByFolder.delete(key)
+	}
+
+	dispose(): void {
+		for (const disposable of this._disposables) {
+			disposable.dispose()
+		}
+	}
+}
@@ -0,0 +1,373 @@
+import { minimatch } from 'minimatch'
+import { parse as parseYaml } from 'yaml'
+import { FindingSeverity, LocatedReviewItem } from './review-item'
+import { ReviewLanguage } from './review-settings'
+
+/**
+ * プロジェクトのレビュールール（.llmlint.json / .llmlint.yaml）
+ *
+ * 例:
+ *   rules:
+ *     - 例外を握りつぶさないこと
+ *   focus: [security, performance]
+ *   severityOverrides:
+ *     HINT: INFO
+ *   languages:
+ *     python:
+ *       template: "{{language}} のコード {{filePath}}（{{lineCount}}行）をレビューしてください"
+ *   overrides:
+ *     - files: ["src/legacy/**"]
+ *       severityOverrides:
+ *         WARNING: INFO
+ */
+
+// ワークスペースのルートに置くルールファイルの名前（先に見つかったものを使用する）
+export const RULES_FILE_NAMES = [
+	'.llmlint.json',
+	'.llmlint.yaml',
+	'.llmlint.yml',
+]
+
+export interface RuleSet {
+	// 既定のレビューの指示を置き換えるテンプレート
+	template?: string
+	// 追加のレビュールール
+	rules?: string[]
+	// 重点的に確認する観点
+	focus?: string[]
+	// モデルが返した重要度の置き換え
+	severityOverrides?: Partial<Record<FindingSeverity, FindingSeverity>>
+}
+
+export interface ProjectRules extends RuleSet {
+	// 言語IDごとのルール
+	languages?: Record<string, RuleSet>
+	// glob パターンにマッチするファイルに適用するルール（後に書いたものが優先）
+	overrides?: Array<RuleSet & { files: string[] }>
+}
+
+/**
+ * ファイルに適用するルールを1つにまとめたもの
+ */
+export interface ResolvedRules {
+	template?: string
+	rules: string[]
+	focus: string[]
+	severityOverrides: Partial<Record<FindingSeverity, FindingSeverity>>
+}
+
+// テンプレートで使用できる変数
+export const TEMPLATE_VARIABLES = ['filePath', 'language', 'lineCount']
+
+// 定義済みの観点（それ以外の文字列はそのままプロンプトに含める）
+const FOCUS_DESCRIPTIONS: Record<ReviewLanguage, Record<string, string>> = {
+	ja: {
+		security:
+			'セキュリティ（インジェクション、認証・認可、機密情報の扱い、入力値の検証など）',
+		performance:
+			'パフォーマンス（不要な計算やI/O、計算量、メモリ使用量、ループ内の重い処理など）',
+		apiMisuse:
+			'APIの誤用（非推奨APIの使用、引数や戻り値の誤った扱い、リソースの解放漏れなど）',
+		errorHandling:
+			'エラー処理（例外の握りつぶし、エラーの見落とし、異常系の考慮漏れなど）',
+		concurrency:
+			'並行処理（競合状態、デッドロック、非同期処理の待ち忘れなど）',
+	},
+	en: {
+		security:
+			'Security (injection, authentication and authorization, handling of secrets, input validation, etc.)',
+		performance:
+			'Performance (unnecessary computation or I/O, complexity, memory usage, heavy work inside loops, etc.)',
+		apiMisuse:
+			'API misuse (deprecated APIs, wrong handling of arguments or return values, leaked resources, etc.)',
+		errorHandling:
+			'Error handling (swallowed exceptions, ignored errors, unhandled failure cases, etc.)',
+		concurrency:
+			'Concurrency (race conditions, deadlocks, missing awaits on asynchronous work, etc.)',
+	},
+}
+
+const SEVERITIES: FindingSeverity[] = ['ERROR', 'WARNING', 'INFO', 'HINT']
+
+/**
+ * ルールファイルを解析し、検証する
+ * 不正な項目は読み飛ばし、その内容を errors に含める
+ */
+export function parseProjectRules(
+	text: string,
+	fileName: string
+): { rules: ProjectRules; errors: string[] } {
+	let value: unknown
+	try {
+		value = /\.ya?ml$/.test(fileName) ? parseYaml(text) : JSON.parse(text)
+	} catch (error) {
+		return {
+			rules: {},
+			errors: [`${fileName} を解析できません: ${error}`],
+		}
+	}
+	// 空のファイル
+	if (value === null || value === undefined) {
+		return { rules: {}, errors: [] }
+	}
+
+	const errors: string[] = []
+	const rules = new RulesValidator(errors).validateProjectRules(value)
+	return { rules, errors: errors.map((error) => `${fileName}: ${error}`) }
+}
+
+class RulesValidator {
+	constructor(private readonly errors: string[]) {}
+
+	validateProjectRules(value: unknown): ProjectRules {
+		if (!isObject(value)) {
+			this.errors.push('ルートはオブジェクトで指定してください')
+			return {}
+		}
+		const rules: ProjectRules = this.validateRuleSet(value, '', [
+			'languages',
+			'overrides',
+		])
+
+		if (value.languages !== undefined) {
+			if (isObject(value.languages)) {
+				rules.languages = {}
+				for (const [languageId, ruleSet] of Object.entries(
+					value.languages
+				)) {
+					const path = `languages.${languageId}`
+					if (isObject(ruleSet)) {
+						rules.languages[languageId] = this.validateRuleSet(
+							ruleSet,
+							`${path}.`
+						)
+					} else {
+						this.errors.push(
+							`${path}: オブジェクトで指定してください`
+						)
+					}
+				}
+			} else {
+				this.errors.push(
+					'languages: 言語IDをキーとするオブジェクトで指定してください'
+				)
+			}
+		}
+
+		if (value.overrides !== undefined) {
+			if (Array.isArray(value.overrides)) {
+				rules.overrides = []
+				value.overrides.forEach((override, index) => {
+					const path = `overrides[${index}]`
+					if (!isObject(override)) {
+						this.errors.push(
+							`${path}: オブジェクトで指定してください`
+						)
+						return
+					}
+					const files = this.validateStringArray(
+						override.files,
+						`${path}.files`
+					)
+					if (!files || files.length === 0) {
+						this.errors.push(
+							`${path}.files: 対象ファイルのglobパターンを1つ以上指定してください`
+						)
+						return
+					}
+					rules.overrides!.push({
+						...this.validateRuleSet(override, `${path}.`, [
+							'files',
+						]),
+						files,
+					})
+				})
+			} else {
+				this.errors.push('overrides: 配列で指定してください')
+			}
+		}
+		return rules
+	}
+
+	private validateRuleSet(
+		value: Record<string, unknown>,
+		prefix: string,
+		extraKeys: string[] = []
+	): RuleSet {
+		const ruleSet: RuleSet = {}
+		const knownKeys = [
+			'template',
+			'rules',
+			'focus',
+			'severityOverrides',
+			...extraKeys,
+		]
+		for (const key of Object.keys(value)) {
+			if (!knownKeys.includes(key)) {
+				this.errors.push(
+					`${prefix}${key}: 不明なキーです（使用できるキー: ${knownKeys.join(
+						', '
+					)}）`
+				)
+			}
+		}
+
+		if (value.template !== undefined) {
+			if (typeof value.template === 'string') {
+				for (const match of value.template.matchAll(
+					/\{\{\s*(\w+)\s*\}\}/g
+				)) {
+					if (!TEMPLATE_VARIABLES.includes(match[1])) {
+						this.errors.push(
+							`${prefix}template: 不明な変数 {{${
+								match[1]
+							}}} です（使用できる変数: ${TEMPLATE_VARIABLES.join(
+								', '
+							)}）`
+						)
+					}
+				}
+				ruleSet.template = value.template
+			} else {
+				this.errors.push(`${prefix}template: 文字列で指定してください`)
+			}
+		}
+
+		ruleSet.rules = this.validateStringArray(value.rules, `${prefix}rules`)
+		ruleSet.focus = this.validateStringArray(value.focus, `${prefix}focus`)
+
+		if (value.severityOverrides !== undefined) {
+			if (isObject(value.severityOverrides)) {
+				ruleSet.severityOverrides = {}
+				for (const [from, to] of Object.entries(
+					value.severityOverrides
+				)) {
+					const path = `${prefix}severityOverrides.${from}`
+					if (!SEVERITIES.includes(from as FindingSeverity)) {
+						this.errors.push(
+							`${path}: 重要度は ${SEVERITIES.join(
+								', '
+							)} のいずれかを指定してください`
+						)
+					} else if (!SEVERITIES.includes(to as FindingSeverity)) {
+						this.errors.push(
+							`${path}: 置き換え後の重要度は ${SEVERITIES.join(
+								', '
+							)} のいずれかを指定してください`
+						)
+					} else {
+						ruleSet.severityOverrides[from as FindingSeverity] =
+							to as FindingSeverity
+					}
+				}
+			} else {
+				this.errors.push(
+					`${prefix}severityOverrides: 重要度をキーとするオブジェクトで指定してください`
+				)
+			}
+		}
+		return ruleSet
+	}
+
+	private validateStringArray(
+		value: unknown,
+		path: string
+	): string[] | undefined {
+		if (value === undefined) {
+			return undefined
+		}
+		if (!Array.isArray(value)) {
+			this.errors.push(`${path}: 文字列の配列で指定してください`)
+			return undefined
+		}
+		return value.filter((item, index) => {
+			if (typeof item !== 'string' || item.trim() === '') {
+				this.errors.push(`${path}[${index}]: 文字列で指定してください`)
+				return false
+			}
+			return true
+		})
+	}
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * ファイルに適用するルールをまとめる
+ * 全体 → 言語 → overrides の順に適用し、テンプレートと重要度の置き換えは後のものを優先する
+ * @param relativePath ルールファイルのあるディレクトリからの相対パス
+ */
+export function resolveRulesForFile(
+	projectRules: ProjectRules,
+	relativePath: string,
+	languageId: string
+): ResolvedRules {
+	const resolved: ResolvedRules = {
+		rules: [],
+		focus: [],
+		severityOverrides: {},
+	}
+	const apply = (ruleSet: RuleSet) => {
+		resolved.template = ruleSet.template ?? resolved.template
+		resolved.rules.push(...(ruleSet.rules ?? []))
+		resolved.focus.push(...(ruleSet.focus ?? []))
+		Object.assign(resolved.severityOverrides, ruleSet.severityOverrides)
+	}
+
+	apply(projectRules)
+	const languageRules = projectRules.languages?.[languageId]
+	if (languageRules) {
+		apply(languageRules)
+	}
+	const normalizedPath = relativePath.replace(/\\/g, '/')
+	for (const override of projectRules.overrides ?? []) {
+		if (
+			override.files.some((pattern) =>
+				minimatch(normalizedPath, pattern, {
+					dot: true,
+					matchBase: true,
+				})
+			)
+		) {
+			apply(override)
+		}
+	}
+
+	resolved.rules = [...new Set(resolved.rules)]
+	resolved.focus = [...new Set(resolved.focus)]
+	return resolved
+}
+
+/**
+ * テンプレートの {{変数}} を置き換える
+ */
+export function renderTemplate(
+	template: string,
+	variables: Record<string, string | number>
+): string {
+	return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+		name in variables ? String(variables[name]) : match
+	)
+}
+
+/**
+ * 観点をプロンプトに含める説明に変換する
+ */
+export function describeFocus(focus: string, language: ReviewLanguage): string {
+	return FOCUS_DESCRIPTIONS[language][focus] ?? focus
+}
+
+/**
+ * ルールに従って指摘の重要度を置き換える
+ */
+export function applySeverityOverrides<T extends LocatedReviewItem>(
+	items: T[],
+	rules: ResolvedRules
+): T[] {
+	return items.map((item) => {
+		const severity = rules.severityOverrides[item.severity]
+		return severity ? { ...item, severity } : item
+	})
+}
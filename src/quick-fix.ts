@@ -0,0 +1,148 @@
+import * as vscode from 'vscode'
+import {
+	ReviewFinding,
+	formatDiagnosticMessage,
+	normalizeCode,
+} from './review-finding'
+
+/**
+ * LLMの修正案と、指摘の説明・指摘を非表示にする操作を「問題」タブの診断結果に対するクイックフィックスとして提供する
+ */
+export class LLMFixCodeActionProvider implements vscode.CodeActionProvider {
+	static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix]
+
+	// ファイルURIをキーとして指摘事項を保持するMap
+	private _findingsByFile = new Map<string, ReviewFinding[]>()
+
+	// 特定のファイルの指摘事項を更新する
+	setFindings(uri: vscode.Uri, findings: ReviewFinding[]): void {
+		this._findingsByFile.set(uri.toString(), findings)
+	}
+
+	// 特定のファイルの指摘事項をクリアする
+	clearFindings(uri: vscode.Uri): void {
+		this._findingsByFile.delete(uri.toString())
+	}
+
+	provideCodeActions(
+		document: vscode.TextDocument,
+		_range: vscode.Range | vscode.Selection,
+		context: vscode.CodeActionContext
+	): vscode.CodeAction[] {
+		const findings = this._findingsByFile.get(document.uri.toString())
+		if (!findings || findings.length === 0) {
+			return []
+		}
+
+		const actions: vscode.CodeAction[] = []
+		for (const diagnostic of context.diagnostics) {
+			if (diagnostic.source !== 'LLM Reviewer') {
+				continue
+			}
+			// 位置を特定できなかった指摘は先頭行に表示されている
+			const finding = findings.find(
+				(f) =>
+					formatDiagnosticMessage(f) === diagnostic.message &&
+					(f.range === undefined || f.range.isEqual(diagnostic.range))
+			)
+			if (!finding) {
+				continue
+			}
+			if (canApplySuggestedFix(document, finding)) {
+				actions.push(
+					this.createFixAction(document, diagnostic, finding)
+				)
+			}
+			actions.push(
+				this.createExplainAction(document, diagnostic, finding),
+				this.createDismissAction(document, diagnostic, finding)
+			)
+		}
+		return actions
+	}
+
+	private createFixAction(
+		document: vscode.TextDocument,
+		diagnostic: vscode.Diagnostic,
+		finding: ReviewFinding
+	): vscode.CodeAction {
+		const action = new vscode.CodeAction(
+			vscode.l10n.t('Apply LLM suggested fix'),
+			vscode.CodeActionKind.QuickFix
+		)
+		action.edit = createSuggestedFixEdit(document.uri, finding)
+		action.diagnostics = [diagnostic]
+		return action
+	}
+
+	private createExplainAction(
+		document: vscode.TextDocument,
+		diagnostic: vscode.Diagnostic,
+		finding: ReviewFinding
+	): vscode.CodeAction {
+		const action = new vscode.CodeAction(
+			vscode.l10n.t('Explain this finding'),
+			vscode.CodeActionKind.QuickFix
+		)
+		action.command = {
+			title: vscode.l10n.t('Explain this finding'),
+			command: 'llm-reviewer.explainFinding',
+			arguments: [document.uri, finding],
+		}
+		action.diagnostics = [diagnostic]
+		return action
+	}
+
+	private createDismissAction(
+		document: vscode.TextDocument,
+		diagnostic: vscode.Diagnostic,
+		finding: ReviewFinding
+	): vscode.CodeAction {
+		const action = new vscode.CodeAction(
+			vscode.l10n.t('Dismiss this finding'),
+			vscode.CodeActionKind.QuickFix
+		)
+		action.command = {
+			title: vscode.l10n.t('Dismiss this finding'),
+			command: 'llm-reviewer.dismissFinding',
+			arguments: [document.uri, finding],
+		}
+		action.diagnostics = [diagnostic]
+		return action
+	}
+}
+
+/**
+ * 指摘の修正案を適用できるか
+ * 範囲がスニペットと一致する場合のみ置き換え可能とする
+ * （部分的な一致で位置を特定した場合や、レビュー後に編集された場合は提供しない）
+ */
+export function canApplySuggestedFix(
+	document: vscode.TextDocument,
+	finding: ReviewFinding
+): boolean {
+	return (
+		finding.range !== undefined &&
+		finding.suggestedFix !== undefined &&
+		finding.codeSnippet !== undefined &&
+		normalizeCode(document.getText(finding.range)) ===
+			normalizeCode(finding.codeSnippet)
+	)
+}
+
+/**
+ * 指摘の範囲を修正案で置き換える編集を作成する（canApplySuggestedFix で確認してから使用する）
+ */
+export function createSuggestedFixEdit(
+	uri: vscode.Uri,
+	finding: ReviewFinding
+): vscode.WorkspaceEdit {
+	const edit = new vscode.WorkspaceEdit()
+	// needsConfirmation により、適用前にリファクタリングプレビューで差分を確認できる
+	edit.replace(uri, finding.range!, finding.suggestedFix!, {
+		label: vscode.l10n.t('LLM suggested fix'),
+		description: finding.message,
+		needsConfirmation: true,
+	})
+	return edit
+}
@@ -0,0 +1,241 @@
+import * as vscode from 'vscode'
+import { LineRange } from './line-ranges'
+import { RelatedDefinition } from './review-core'
+import { estimateTokens } from './chunk-splitter'
+
+// 定義を問い合わせる識別子の数の上限（言語サーバへの問い合わせが多くなりすぎないようにする）
+const MAX_LOOKUPS = 200
+
+// 定義を問い合わせない識別子（主要な言語のキーワードや組み込みの値）
+const IGNORED_IDENTIFIERS = new Set([
+	'if',
+	'else',
+	'elif',
+	'for',
+	'while',
+	'do',
+	'switch',
+	'case',
+	'default',
+	'break',
+	'continue',
+	'return',
+	'yield',
+	'try',
+	'catch',
+	'except',
+	'finally',
+	'throw',
+	'raise',
+	'new',
+	'delete',
+	'typeof',
+	'instanceof',
+	'in',
+	'of',
+	'is',
+	'not',
+	'and',
+	'or',
+	'as',
+	'from',
+	'import',
+	'export',
+	'package',
+	'use',
+	'using',
+	'module',
+	'require',
+	'const',
+	'let',
+	'var',
+	'val',
+	'def',
+	'fn',
+	'func',
+	'function',
+	'class',
+	'struct',
+	'enum',
+	'interface',
+	'type',
+	'trait',
+	'impl',
+	'extends',
+	'implements',
+	'public',
+	'private',
+	'protected',
+	'static',
+	'readonly',
+	'abstract',
+	'async',
+	'await',
+	'void',
+	'this',
+	'self',
+	'super',
+	'true',
+	'false',
+	'null',
+	'undefined',
+	'nil',
+	'None',
+	'True',
+	'False',
+	'string',
+	'number',
+	'boolean',
+	'int',
+	'float',
+	'double',
+	'char',
+	'bool',
+	'str',
+])
+
+/**
+ * コードが参照している、ほかのファイルで定義されたシンボルのシグネチャとドキュメントコメントを取得する
+ * 定義の場所は定義プロバイダー、内容はホバーの情報から取得し、トークン数の上限まで含める
+ * （同じワークスペース内の定義を優先する）
+ * @param lineRanges 指定した場合は範囲内で参照しているシンボルのみを対象とする
+ * @param signal 中断された場合は、それまでに取得した定義のみを返す
+ */
+export async function collectRelatedDefinitions(
+	doc: vscode.TextDocument,
+	maxTokens: number,
+	OUTPUT: vscode.OutputChannel,
+	lineRanges?: LineRange[],
+	signal?: AbortSignal
+): Promise<RelatedDefinition[]> {
+	const candidates: Array<RelatedDefinition & { inWorkspace: boolean }> = []
+	const seenNames = new Set<string>()
+	const seenTexts = new Set<string>()
+	let lookups = 0
+
+	for (const { name, position } of findIdentifiers(doc, lineRanges)) {
+		if (seenNames.has(name)) {
+			continue
+		}
+		seenNames.add(name)
+		if (++lookups > MAX_LOOKUPS || signal?.aborted) {
+			break
+		}
+
+		// 同じファイル内で定義されているシンボルはコードに含まれているため除外する
+		const definitionUri = await findExternalDefinition(doc, position)
+		if (!definitionUri) {
+			continue
+		}
+		const text = await getHoverText(doc, position)
+		if (!text || seenTexts.has(text)) {
+			continue
+		}
+		seenTexts.add(text)
+		candidates.push({
+			name,
+			file: vscode.workspace.asRelativePath(definitionUri, false),
+			text,
+			inWorkspace: !!vscode.workspace.getWorkspaceFolder(definitionUri),
+		})
+	}
+
+	// ワークスペース内の定義を優先し、トークン数の上限まで含める
+	const definitions: RelatedDefinition[] = []
+	let totalTokens = 0
+	let skipped = 0
+	for (const { inWorkspace, ...definition } of [
+		...candidates.filter((c) => c.inWorkspace),
+		...candidates.filter((c) => !c.inWorkspace),
+	]) {
+		const tokens = estimateTokens(definition.text)
+		if (totalTokens + tokens > maxTokens) {
+			skipped++
+			continue
+		}
+		totalTokens += tokens
+		definitions.push(definition)
+		OUTPUT.appendLine(
+			`[llm-reviewer] 関連する定義をプロンプトに追加: ${definition.name} (${definition.file}, 約${tokens}トークン)`
+		)
+	}
+	OUTPUT.appendLine(
+		`[llm-reviewer] 関連する定義: ${
+			definitions.length
+		}件 (約${totalTokens}/${maxTokens}トークン${
+			skipped > 0 ? `、上限を超えるため${skipped}件を除外` : ''
+		})`
+	)
+	return definitions
+}
+
+/**
+ * 定義を問い合わせる識別子とその位置を列挙する
+ */
+function* findIdentifiers(
+	doc: vscode.TextDocument,
+	lineRanges?: LineRange[]
+): Generator<{ name: string; position: vscode.Position }> {
+	const ranges = lineRanges ?? [{ startLine: 0, endLine: doc.lineCount - 1 }]
+	for (const { startLine, endLine } of ranges) {
+		for (
+			let line = Math.max(0, startLine);
+			line <= Math.min(endLine, doc.lineCount - 1);
+			line++
+		) {
+			for (const match of doc
+				.lineAt(line)
+				.text.matchAll(/[A-Za-z_$][\w$]*/g)) {
+				const name = match[0]
+				if (name.length < 2 || IGNORED_IDENTIFIERS.has(name)) {
+					continue
+				}
+				yield {
+					name,
+					position: new vscode.Position(line, match.index!),
+				}
+			}
+		}
+	}
+}
+
+/**
+ * シンボルがほかのファイルで定義されている場合、定義のあるファイルのURIを返す
+ */
+async function findExternalDefinition(
+	doc: vscode.TextDocument,
+	position: vscode.Position
+): Promise<vscode.Uri | undefined> {
+	const locations = await vscode.commands.executeCommand<
+		Array<vscode.Location | vscode.LocationLink> | undefined
+	>('vscode.executeDefinitionProvider', doc.uri, position)
+	const uris = (locations ?? []).map((location) =>
+		'targetUri' in location ? location.targetUri : location.uri
+	)
+	if (
+		uris.length === 0 ||
+		uris.some((uri) => uri.toString() === doc.uri.toString())
+	) {
+		return undefined
+	}
+	return uris[0]
+}
+
+/**
+ * ホバーに表示されるシグネチャとドキュメントコメントを取得する
+ */
+async function getHoverText(
+	doc: vscode.TextDocument,
+	position: vscode.Position
+): Promise<string> {
+	const hovers = await vscode.commands.executeCommand<
+		vscode.Hover[] | undefined
+	>('vscode.executeHoverProvider', doc.uri, position)
+	return (hovers ?? [])
+		.flatMap((hover) => hover.contents)
+		.map((content) =>
+			typeof content === 'string' ? content : content.value
+		)
+		.join('\n')
+		.trim()
+}
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode'
+import { createHash } from 'crypto'
+import { RawReviewItem, ReviewFinding } from './review-finding'
+
+// ファイルに保存する形式（vscode.Range は JSON にできないため行・列で保持）
+interface CachedFinding {
+	severity: ReviewFinding['severity']
+	message: string
+	range?: [number, number, number, number]
+	codeSnippet?: string
+	suggestedFix?: string
+	raw: RawReviewItem
+}
+
+interface CacheEntry {
+	createdAt: number
+	findings: CachedFinding[]
+}
+
+/**
+ * ファイル内容のハッシュをキーとして、レビュー結果を globalStorageUri に保存するキャッシュ
+ * VS Code を再起動しても、内容が変わっていないファイルのレビュー結果を復元できる
+ */
+export class ReviewCache {
+	private readonly _cacheDir: vscode.Uri
+
+	constructor(
+		storageUri: vscode.Uri,
+		private readonly OUTPUT: vscode.OutputChannel
+	) {
+		this._cacheDir = vscode.Uri.joinPath(storageUri, 'review-cache')
+	}
+
+	/**
+	 * ファイル内容とレビュー条件（モデル、プロンプトのバージョンなど）からキーを作成する
+	 */
+	static createKey(content: string, conditions: unknown[]): string {
+		return createHash('sha256')
+			.update(JSON.stringify(conditions))
+			.update('\0')
+			.update(content)
+			.digest('hex')
+	}
+
+	async get(key: string): Promise<ReviewFinding[] | undefined> {
+		try {
+			const data = await vscode.workspace.fs.readFile(this.entryUri(key))
+			const entry = JSON.parse(
+				Buffer.from(data).toString('utf8')
+			) as CacheEntry
+			return entry.findings.map(fromCachedFinding)
+		} catch {
+			// キャッシュが存在しない、または壊れている場合はキャッシュなしとして扱う
+			return undefined
+		}
+	}
+
+	async set(key: string, findings: ReviewFinding[]): Promise<void> {
+		const entry: CacheEntry = {
+			createdAt: Date.now(),
+			findings: findings.map(toCachedFinding),
+		}
+		try {
+			await vscode.workspace.fs.createDirectory(this._cacheDir)
+			await vscode.workspace.fs.writeFile(
+				this.entryUri(key),
+				Buffer.from(JSON.stringify(entry), 'utf8')
+			)
+		} catch (error) {
+			this.OUTPUT.appendLine(
+				`[llm-reviewer] レビュー結果のキャッシュ保存に失敗: ${error}`
+			)
+		}
+	}
+
+	async clear(): Promise<void> {
+		try {
+			await vscode.workspace.fs.delete(this._cacheDir, {
+				recursive: true,
+				useTrash: false,
+			})
+		} catch (error) {
+			// キャッシュディレクトリがまだ作成されていない場合
+			if (
+				error instanceof vscode.FileSystemError &&
+				error.code === 'FileNotFound'
+			) {
+				return
+			}
+			throw error
+		}
+	}
+
+	private entryUri(key: string): vscode.Uri {
+		return vscode.Uri.joinPath(this._cacheDir, `${key}.json`)
+	}
+}
+
+function toCachedFinding(finding: ReviewFinding): CachedFinding {
+	const { range, ...rest } = finding
+	return {
+		...rest,
+		range: range
+			? [
+					range.start.line,
+					range.start.character,
+					range.end.line,
+					range.end.character,
+			  ]
+			: undefined,
+	}
+}
+
+function fromCachedFinding(cached: CachedFinding): ReviewFinding {
+	const { range, ...rest } = cached
+	return {
+		...rest,
+		range: range ? new vscode.Range(...range) : undefined,
+	}
+}
@@ -0,0 +1,581 @@
+/**
+ * エディタに依存しないレビュー処理
+ * プロンプトの作成、LLMへのリクエスト、応答の解析とコード内の位置の特定を行う
+ */
+
+import { LineRange, expandLineRanges } from './line-ranges'
+import {
+	FINDING_CATEGORIES,
+	LocatedReviewItem,
+	RawReviewItem,
+} from './review-item'
+import { parseReviewContent, parseReviewJson } from './review-parser'
+import { ChatMessage } from './llm-providers'
+import {
+	ChatRequestOptions,
+	ReviewLogger,
+	sendChatRequest,
+} from './chat-client'
+import { verifyReviewItems } from './review-verifier'
+import {
+	OutputStrategy,
+	ReviewLanguage,
+	ReviewSettings,
+} from './review-settings'
+import { PROMPT_MESSAGES, PromptMessages } from './review-prompts'
+import { SourceText, TextRange } from './source-text'
+import { SnippetMatch, locateCodeSnippet } from './snippet-locator'
+import {
+	ResolvedRules,
+	applySeverityOverrides,
+	describeFocus,
+	renderTemplate,
+} from './project-rules'
+
+// プロンプトやツールのスキーマを変更した場合は更新する（レビュー結果のキャッシュキーに使用）
+export const PROMPT_VERSION = 5
+
+// 報告された行番号とコードスニペットの位置のずれとして許容する行数
+const LINE_NUMBER_TOLERANCE = 1
+// 行番号とコードスニペットの位置が一致しない場合の、位置の一致度の係数
+const LINE_MISMATCH_PENALTY = 0.75
+// スニペットが見つからず、報告された行番号のみで位置を特定した場合の一致度
+const LINE_NUMBERS_ONLY_SCORE = 0.5
+
+/**
+ * reviewCode の引数（JSON出力方式ではレスポンス本文）のスキーマ
+ * 説明はプロンプトと同じ言語で記述する
+ * @param withLineNumbers 行番号付きでコードを送信する場合は、開始行・終了行を追加する
+ */
+function buildReviewParametersSchema(
+	messages: PromptMessages,
+	withLineNumbers: boolean
+) {
+	return {
+		type: 'object',
+		properties: {
+			reviews: {
+				type: 'array',
+				description: messages.schema.reviews,
+				items: {
+					type: 'object',
+					properties: {
+						severity: {
+							type: 'string',
+							enum: ['ERROR', 'WARNING', 'INFO', 'HINT'],
+							description: messages.schema.severity,
+						},
+						message: {
+							type: 'string',
+							description: messages.schema.message,
+						},
+						rationale: {
+							type: 'string',
+							description: messages.schema.rationale,
+						},
+						category: {
+							type: 'string',
+							enum: FINDING_CATEGORIES,
+							description: messages.schema.category,
+						},
+						codeSnippet: {
+							type: 'string',
+							description: messages.schema.codeSnippet,
+						},
+						suggestedFix: {
+							type: 'string',
+							description: messages.schema.suggestedFix,
+						},
+						...(withLineNumbers
+							? {
+									startLine: {
+										type: 'integer',
+										description:
+											messages.lineNumbers.startLine,
+									},
+									endLine: {
+										type: 'integer',
+										description:
+											messages.lineNumbers.endLine,
+									},
+							  }
+							: {}),
+					},
+					required: [
+						'severity',
+						'message',
+						...(withLineNumbers ? ['startLine', 'endLine'] : []),
+					],
+				},
+			},
+		},
+		required: ['reviews'],
+	}
+}
+
+function buildReviewFunctions(
+	messages: PromptMessages,
+	withLineNumbers: boolean
+) {
+	return [
+		{
+			type: 'function',
+			function: {
+				description: messages.schema.function,
+				name: 'reviewCode',
+				parameters: buildReviewParametersSchema(
+					messages,
+					withLineNumbers
+				),
+			},
+		},
+	]
+}
+
+/**
+ * 指定した範囲の行を取り出す
+ * @param withLineNumbers 各行の先頭に「行番号| 」を付ける（行番号は1始まりで、桁をそろえる）
+ */
+export function formatCodeLines(
+	source: SourceText,
+	range: LineRange,
+	withLineNumbers: boolean
+): string {
+	const width = String(range.endLine + 1).length
+	const lines: string[] = []
+	for (let i = range.startLine; i <= range.endLine; i++) {
+		lines.push(
+			withLineNumbers
+				? `${String(i + 1).padStart(width)}| ${source.lineAt(i)}`
+				: source.lineAt(i)
+		)
+	}
+	return lines.join('\n')
+}
+
+/**
+ * 変更行の前後を含む抜粋を作成する
+ */
+function buildChangedExcerpt(
+	source: SourceText,
+	changedRanges: LineRange[],
+	contextLines: number,
+	messages: PromptMessages,
+	withLineNumbers: boolean
+): string {
+	return expandLineRanges(changedRanges, contextLines, source.lineCount)
+		.map((range) =>
+			[
+				messages.excerptHeader(range.startLine + 1, range.endLine + 1),
+				formatCodeLines(source, range, withLineNumbers),
+			].join('\n')
+		)
+		.join('\n')
+}
+
+/**
+ * レビュー対象の範囲
+ */
+export interface ReviewTarget {
+	// 変更箇所のみをレビューする場合の変更行
+	changedRanges?: LineRange[]
+	// ファイルの一部のみをレビューする場合の範囲
+	chunk?: LineRange
+}
+
+/**
+ * レビュー対象のコードが参照している、ほかのファイルで定義されたシンボル
+ */
+export interface RelatedDefinition {
+	name: string
+	// 定義されているファイルのパス
+	file: string
+	// シグネチャとドキュメントコメント
+	text: string
+}
+
+/**
+ * ほかのファイルで定義されたシンボルの情報をプロンプトに含める形式に変換する
+ */
+function buildRelatedDefinitions(
+	definitions: RelatedDefinition[],
+	messages: PromptMessages
+): string[] {
+	if (definitions.length === 0) {
+		return []
+	}
+	return [
+		'',
+		...messages.relatedDefinitions,
+		...definitions.flatMap(({ name, file, text }) => [
+			`----- ${name}（${file}） -----`,
+			text,
+		]),
+		'',
+	]
+}
+
+/**
+ * プロジェクトのルールに従ってレビューの指示を作成する
+ */
+function buildInstructions(
+	source: SourceText,
+	rules: ResolvedRules | undefined,
+	messages: PromptMessages,
+	language: ReviewLanguage
+): string[] {
+	const instructions = rules?.template
+		? renderTemplate(rules.template, {
+				filePath: source.fileName,
+				language: source.languageId,
+				lineCount: source.lineCount,
+		  }).split('\n')
+		: messages.defaultInstructions
+	return [
+		...instructions,
+		...(rules && rules.rules.length > 0
+			? [messages.projectRules, ...rules.rules.map((rule) => `- ${rule}`)]
+			: []),
+		...(rules && rules.focus.length > 0
+			? [
+					messages.focus,
+					...rules.focus.map(
+						(focus) => `- ${describeFocus(focus, language)}`
+					),
+			  ]
+			: []),
+	]
+}
+
+/**
+ * レビューを依頼するプロンプトを作成する
+ * @param relatedDefinitions コードが参照している、ほかのファイルで定義されたシンボル
+ */
+export function buildReviewPrompt(
+	source: SourceText,
+	settings: ReviewSettings,
+	{ changedRanges, chunk }: ReviewTarget = {},
+	rules?: ResolvedRules,
+	relatedDefinitions: RelatedDefinition[] = []
+): string {
+	const strategy = settings.outputStrategy
+	const messages = PROMPT_MESSAGES[settings.language]
+	const withLineNumbers = settings.locationMode === 'lineNumbers'
+
+	// 変更箇所のみをレビューする場合は、変更行とその周辺のみを送信する
+	let code: string
+	let target: string[]
+	if (changedRanges) {
+		code = buildChangedExcerpt(
+			source,
+			changedRanges,
+			settings.diffContextLines,
+			messages,
+			withLineNumbers
+		)
+		target = messages.changedTarget
+	} else if (chunk) {
+		code = withLineNumbers
+			? formatCodeLines(source, chunk, true)
+			: source.getText(source.rangeOfLines(chunk))
+		target = messages.chunkTarget(chunk.startLine + 1, chunk.endLine + 1)
+	} else {
+		code = withLineNumbers
+			? formatCodeLines(
+					source,
+					{ startLine: 0, endLine: source.lineCount - 1 },
+					true
+			  )
+			: source.text
+		target = messages.fileTarget
+	}
+	return [
+		'```',
+		code,
+		'```',
+		...target,
+		...buildRelatedDefinitions(relatedDefinitions, messages),
+		...buildInstructions(source, rules, messages, settings.language),
+		`${messages.filePath}: ${source.fileName}`,
+		`${messages.language}: ${source.languageId}`,
+		messages.lineCount(source.lineCount),
+		'',
+		...(withLineNumbers
+			? messages.lineNumbers.instructions
+			: messages.snippet),
+		...(strategy === 'text' ? [] : [messages.suggestedFix]),
+		'',
+		...(withLineNumbers
+			? messages.lineNumbers.output[strategy]
+			: messages.output[strategy]),
+	].join('\n')
+}
+
+export interface ReviewRequestOptions extends ReviewTarget, ChatRequestOptions {
+	// ファイルに適用するプロジェクトのルール
+	rules?: ResolvedRules
+	// プロンプトに含める、ほかのファイルで定義されたシンボル
+	relatedDefinitions?: RelatedDefinition[]
+}
+
+/**
+ * LLMにレビューをリクエストし、コード内の位置を特定した指摘を返す
+ * verifyFindings が有効な場合は、指摘ごとに検証を行い確信度を付与する
+ * 通信エラーや中断は例外として呼び出し元に通知する
+ */
+export async function requestReview(
+	source: SourceText,
+	settings: ReviewSettings,
+	log: ReviewLogger,
+	options: ReviewRequestOptions = {}
+): Promise<LocatedReviewItem[]> {
+	const { chunk, rules, relatedDefinitions } = options
+	const strategy = settings.outputStrategy
+	const withLineNumbers = settings.locationMode === 'lineNumbers'
+	const prompt = buildReviewPrompt(
+		source,
+		settings,
+		options,
+		rules,
+		relatedDefinitions
+	)
+
+	const messages = PROMPT_MESSAGES[settings.language]
+	const useTools = strategy === 'tools' || strategy === 'auto'
+
+	// 通信エラーや中断は呼び出し元に例外として通知する
+	// （失敗した結果を「指摘なし」としてキャッシュしないため）
+	const message = await sendChatRequest(
+		settings,
+		{
+			messages: [{ role: 'user', content: prompt }],
+			...(useTools
+				? {
+						tools: buildReviewFunctions(messages, withLineNumbers),
+						toolChoice: 'auto',
+				  }
+				: {}),
+			...(strategy === 'jsonSchema'
+				? {
+						responseSchema: {
+							name: 'reviewCode',
+							schema: buildReviewParametersSchema(
+								messages,
+								withLineNumbers
+							),
+						},
+				  }
+				: {}),
+		},
+		log,
+		`${strategy}モードでリクエスト実行中...`,
+		options
+	)
+
+	const reviews = message ? extractReviewItems(message, strategy, log) : null
+	if (reviews) {
+		// ホバーなどで表示するため、レビューしたモデルと日時を記録する
+		const reviewedAt = new Date().toISOString()
+		const located = locateReviewItems(
+			reviews,
+			source,
+			log,
+			chunk,
+			withLineNumbers
+		).map((item) => ({ ...item, model: settings.model, reviewedAt }))
+		const items = rules ? applySeverityOverrides(located, rules) : located
+		return settings.verifyFindings && items.length > 0
+			? verifyReviewItems(items, source, settings, log, options)
+			: items
+	}
+	log('[llm-reviewer] レビュー結果がありません')
+	return []
+}
+
+/**
+ * 出力方式に応じて、モデルの応答からレビュー結果を取り出す
+ * @returns 取り出せなかった場合は null
+ */
+function extractReviewItems(
+	message: ChatMessage,
+	strategy: OutputStrategy,
+	log: ReviewLogger
+): RawReviewItem[] | null {
+	const toolCall = message.tool_calls?.find(
+		(call) => call.function?.name === 'reviewCode'
+	)
+	if (toolCall) {
+		log(`[llm-reviewer] Tool Calls結果:`)
+		log(toolCall.function.arguments)
+		const reviews = parseReviewJson(toolCall.function.arguments)
+		if (!reviews) {
+			log('[llm-reviewer] ツール呼び出しの引数を解析できません')
+		}
+		return reviews
+	}
+
+	const content = message.content ?? ''
+	if (strategy === 'tools') {
+		log('[llm-reviewer] 応答にツール呼び出しが含まれていません')
+		return null
+	}
+	if (strategy === 'auto') {
+		log('[llm-reviewer] ツール呼び出しがないため、応答本文を解析します')
+	}
+	log(`[llm-reviewer] 応答本文:`)
+	log(content)
+	return parseReviewContent(content)
+}
+
+/**
+ * LLMからのレビュー結果を、コード内の位置を特定した指摘事項に変換する
+ */
+function locateReviewItems(
+	reviews: RawReviewItem[],
+	source: SourceText,
+	log: ReviewLogger,
+	chunk?: LineRange,
+	withLineNumbers = false
+): LocatedReviewItem[] {
+	// チャンクをレビューした場合は、まずチャンクの範囲内でスニペットを検索する
+	const searchRange = chunk ? source.rangeOfLines(chunk) : undefined
+
+	return reviews.map((review) => {
+		const message = String(review.message ?? '').trim()
+		// コードスニペットがある場合、そのスニペットの位置をソースコード内で検索
+		// 行番号付きでコードを送信した場合は、報告された行番号と照合する
+		const match = withLineNumbers
+			? locateByLineNumbers(review, message, source, searchRange, log)
+			: locateCodeSnippet(
+					review.codeSnippet,
+					source,
+					searchRange,
+					message
+			  )
+		return {
+			severity: review.severity,
+			message,
+			rationale: review.rationale,
+			category: review.category,
+			range: match?.range,
+			locationScore: match?.score,
+			codeSnippet: review.codeSnippet,
+			suggestedFix: review.suggestedFix,
+			raw: review,
+		}
+	})
+}
+
+/**
+ * 報告された行番号とコードスニペットを照合して、指摘の位置を特定する
+ * - スニペットが報告された行の付近にあれば、スニペットの位置を使用する
+ * - スニペットがほかの位置にのみある場合は、行番号の誤りとみなしてスニペットの位置を使用する
+ * - スニペットが見つからない（または省略された）場合は、報告された行を使用する
+ */
+function locateByLineNumbers(
+	review: RawReviewItem,
+	message: string,
+	source: SourceText,
+	searchRange: TextRange | undefined,
+	log: ReviewLogger
+): SnippetMatch | null {
+	const lines = toReportedLines(review, source)
+	if (!lines) {
+		if (review.startLine !== undefined) {
+			log(
+				`[llm-reviewer] 行番号 (${review.startLine}-${review.endLine}行) がファイルの範囲外のため、コードスニペットから位置を特定します: ${message}`
+			)
+		}
+		return locateCodeSnippet(
+			review.codeSnippet,
+			source,
+			searchRange,
+			message
+		)
+	}
+	const linesLabel = `${lines.startLine + 1}-${lines.endLine + 1}行`
+
+	const [nearLines] = expandLineRanges(
+		[lines],
+		LINE_NUMBER_TOLERANCE,
+		source.lineCount
+	)
+	const matchNearLines = locateCodeSnippet(
+		review.codeSnippet,
+		source,
+		source.rangeOfLines(nearLines),
+		message
+	)
+	if (
+		matchNearLines &&
+		matchNearLines.range.start.line >= nearLines.startLine &&
+		matchNearLines.range.end.line <= nearLines.endLine
+	) {
+		return matchNearLines
+	}
+
+	const match = locateCodeSnippet(
+		review.codeSnippet,
+		source,
+		searchRange,
+		message
+	)
+	if (match) {
+		log(
+			`[llm-reviewer] 行番号 (${linesLabel}) とコードスニペットの位置 (${
+				match.range.start.line + 1
+			}行) が一致しないため、スニペットの位置を使用します: ${message}`
+		)
+		return {
+			range: match.range,
+			score: Math.round(match.score * LINE_MISMATCH_PENALTY * 100) / 100,
+		}
+	}
+
+	if (review.codeSnippet?.trim()) {
+		log(
+			`[llm-reviewer] コードスニペットが見つからないため、行番号 (${linesLabel}) の位置を使用します: ${message}`
+		)
+	}
+	// 行の先頭のインデントを除いた範囲とする
+	const startText = source.lineAt(lines.startLine)
+	return {
+		range: {
+			start: {
+				line: lines.startLine,
+				character: startText.length - startText.trimStart().length,
+			},
+			end: {
+				line: lines.endLine,
+				character: source.lineAt(lines.endLine).length,
+			},
+		},
+		score: review.codeSnippet?.trim() ? LINE_NUMBERS_ONLY_SCORE : 1,
+	}
+}
+
+/**
+ * 報告された行番号（1始まり）を、ファイル内の行の範囲（0始まり）に変換する
+ * @returns 行番号がない場合や1未満の場合、ファイルの範囲外の場合は undefined
+ */
+function toReportedLines(
+	review: RawReviewItem,
+	source: SourceText
+): LineRange | undefined {
+	if (
+		review.startLine === undefined ||
+		review.startLine < 1 ||
+		review.startLine > source.lineCount ||
+		(review.endLine !== undefined && review.endLine < 1)
+	) {
+		return undefined
+	}
+	const endLine = Math.min(
+		review.endLine ?? review.startLine,
+		source.lineCount
+	)
+	return {
+		startLine: Math.min(review.startLine, endLine) - 1,
+		endLine: Math.max(review.startLine, endLine) - 1,
+	}
+}
@@ -0,0 +1,114 @@
+import * as vscode from 'vscode'
+import {
+	FindingCategory,
+	FindingSeverity,
+	LocatedReviewItem,
+} from './review-item'
+
+export {
+	FINDING_CATEGORIES,
+	FindingCategory,
+	FindingSeverity,
+	RawReviewItem,
+	dedupeFindings,
+	normalizeCode,
+} from './review-item'
+
+/**
+ * レビューの指摘事項
+ * TreeView・問題タブ・クイックフィックスなどで共通して利用する
+ */
+export interface ReviewFinding extends LocatedReviewItem {
+	// コードスニペットの位置（特定できなかった場合は undefined）
+	range?: vscode.Range
+	// ベースラインに含まれる指摘（ベースラインの指摘を表示する場合のみ設定）
+	inBaseline?: boolean
+	// レビュー後の編集でコードスニペットが見つからなくなった指摘
+	possiblyResolved?: boolean
+	// 編集された範囲と重なり、コードスニペットから位置を特定し直す必要がある指摘
+	relocationPending?: boolean
+}
+
+/**
+ * 問題タブに表示する指摘のメッセージ
+ * 検証した指摘は確信度、アンサンブルの指摘は報告したモデルを含める
+ * クイックフィックスで診断情報と指摘を対応付ける際にも使用する
+ */
+export function formatDiagnosticMessage(finding: LocatedReviewItem): string {
+	const annotations = [
+		...(finding.confidence !== undefined
+			? [
+					vscode.l10n.t(
+						'Confidence: {0}%',
+						Math.round(finding.confidence * 100)
+					),
+			  ]
+			: []),
+		...(finding.agreedModels
+			? [vscode.l10n.t('Models: {0}', finding.agreedModels.join(', '))]
+			: []),
+	]
+	return annotations.length > 0
+		? `${finding.message} (${annotations.join(', ')})`
+		: finding.message
+}
+
+/**
+ * 指摘の重要度をVSCodeの診断重要度に変換する
+ */
+export function toDiagnosticSeverity(
+	severity: FindingSeverity
+): vscode.DiagnosticSeverity {
+	switch (severity) {
+		case 'ERROR':
+			return vscode.DiagnosticSeverity.Error
+		case 'WARNING':
+			return vscode.DiagnosticSeverity.Warning
+		case 'HINT':
+			return vscode.DiagnosticSeverity.Hint
+		default:
+			return vscode.DiagnosticSeverity.Information
+	}
+}
+
+/**
+ * 重要度の表示名
+ */
+export function severityLabel(severity: FindingSeverity): string {
+	switch (severity) {
+		case 'ERROR':
+			return vscode.l10n.t('Error')
+		case 'WARNING':
+			return vscode.l10n.t('Warning')
+		case 'HINT':
+			return vscode.l10n.t('Hint')
+		default:
+			return vscode.l10n.t('Info')
+	}
+}
+
+/**
+ * 分類の表示名（分類のない指摘は「未分類」）
+ */
+export function categoryLabel(category: FindingCategory | undefined): string {
+	switch (category) {
+		case 'bug':
+			return vscode.l10n.t('Bug')
+		case 'security':
+			return vscode.l10n.t('Security')
+		case 'performance':
+			return vscode.l10n.t('Performance')
+		case 'errorHandling':
+			return vscode.l10n.t('Error handling')
+		case 'concurrency':
+			return vscode.l10n.t('Concurrency')
+		case 'apiMisuse':
+			return vscode.l10n.t('API misuse')
+		case 'maintainability':
+			return vscode.l10n.t('Maintainability')
+		case 'style':
+			return vscode.l10n.t('Style')
+		default:
+			return vscode.l10n.t('Uncategorized')
+	}
+}
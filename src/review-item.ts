@@ -0,0 +1,108 @@
+import { createHash } from 'crypto'
+import { TextRange } from './source-text'
+
+export type FindingSeverity = 'ERROR' | 'WARNING' | 'INFO' | 'HINT'
+
+// 指摘の分類（reviewCode ツールの category の値）
+export const FINDING_CATEGORIES = [
+	'bug',
+	'security',
+	'performance',
+	'errorHandling',
+	'concurrency',
+	'apiMisuse',
+	'maintainability',
+	'style',
+] as const
+
+export type FindingCategory = (typeof FINDING_CATEGORIES)[number]
+
+/**
+ * LLMが reviewCode ツールで返す指摘（モデルの出力そのもの）
+ */
+export interface RawReviewItem {
+	severity: FindingSeverity
+	message: string
+	// 問題の根拠や影響の詳しい説明
+	rationale?: string
+	category?: FindingCategory
+	codeSnippet?: string
+	suggestedFix?: string
+	// 行番号付きでコードを送信した場合に返される行番号（1始まり）
+	startLine?: number
+	endLine?: number
+}
+
+/**
+ * コード内の位置を特定したレビューの指摘
+ * エディタに依存しない形式で、CLIとVS Code拡張機能の両方で利用する
+ */
+export interface LocatedReviewItem {
+	severity: FindingSeverity
+	message: string
+	// 問題の根拠や影響の詳しい説明
+	rationale?: string
+	category?: FindingCategory
+	// コードスニペットの位置（特定できなかった場合は undefined）
+	range?: TextRange
+	// 位置の確かさ（0〜1、1はスニペットが一意に一致した）
+	locationScore?: number
+	codeSnippet?: string
+	suggestedFix?: string
+	// 検証で判定した指摘が正しい確信度（0〜1、検証していない場合は undefined）
+	confidence?: number
+	// 検証の判定理由
+	verificationReason?: string
+	// アンサンブルで同じ指摘を報告したモデルの名前
+	agreedModels?: string[]
+	// レビューしたモデルとレビューした日時（ISO 8601形式）
+	model?: string
+	reviewedAt?: string
+	// LLMが返した元の出力
+	raw: RawReviewItem
+}
+
+/**
+ * 同じ位置・同じ内容の指摘を1つにまとめる（先に現れた指摘を残す）
+ */
+export function dedupeFindings<T extends LocatedReviewItem>(
+	findings: T[]
+): T[] {
+	const seen = new Set<string>()
+	return findings.filter((finding) => {
+		const start = finding.range?.start
+		const key = [
+			finding.severity,
+			normalizeCode(finding.message),
+			start?.line ?? -1,
+			start?.character ?? -1,
+		].join('\u0000')
+		if (seen.has(key)) {
+			return false
+		}
+		seen.add(key)
+		return true
+	})
+}
+
+/**
+ * 空白の違いを無視してコードを比較するために正規化する
+ */
+export function normalizeCode(code: string): string {
+	return code.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * 行番号に依存しない指摘の識別子を作成する（指摘内容とコードスニペットから作成）
+ * コードが移動しても同じ指摘として扱うために使用する
+ */
+export function createFingerprint(
+	item: Pick<LocatedReviewItem, 'message' | 'codeSnippet'>
+): string {
+	return createHash('sha256')
+		.update(normalizeCode(item.message))
+		.update('\0')
+		.update(normalizeCode(item.codeSnippet ?? ''))
+		.digest('hex')
+		.slice(0, 16)
+}
@@ -0,0 +1,227 @@
+import {
+	FINDING_CATEGORIES,
+	FindingCategory,
+	FindingSeverity,
+	RawReviewItem,
+} from './review-item'
+
+/**
+ * モデルの出力からレビュー結果を寛容に読み取る
+ * JSON（コードブロック内や前後に説明文がある場合を含む）を優先し、
+ * 読み取れない場合は「[重要度] 指摘内容 `コード`」形式のテキストとして解析する
+ */
+export function parseReviewContent(content: string): RawReviewItem[] {
+	const text = stripThinking(content)
+	return parseReviewJson(text) ?? parseReviewLines(text)
+}
+
+/**
+ * JSON形式のレビュー結果を解析する
+ * @returns 解析できなかった場合は null
+ */
+export function parseReviewJson(text: string): RawReviewItem[] | null {
+	for (const candidate of findJsonCandidates(stripThinking(text))) {
+		const value = tryParseJson(candidate)
+		if (value === undefined) {
+			continue
+		}
+		const reviews = Array.isArray(value)
+			? value
+			: (value as { reviews?: unknown })?.reviews
+		if (Array.isArray(reviews)) {
+			return reviews
+				.map(toRawReviewItem)
+				.filter((item): item is RawReviewItem => item !== null)
+		}
+	}
+	return null
+}
+
+/**
+ * 行単位のテキスト形式のレビュー結果を解析する
+ */
+export function parseReviewLines(text: string): RawReviewItem[] {
+	const items: RawReviewItem[] = []
+	const lines = text.split('\n')
+
+	for (let i = 0; i < lines.length; i++) {
+		// 箇条書き記号や強調記号を取り除く
+		const line = lines[i]
+			.trim()
+			.replace(/^(?:[-*+•・]|\d+[.)])\s*/, '')
+			.replace(/\*\*/g, '')
+		// 「[重要度] 内容」または「重要度: 内容」の形式のみを指摘として扱う
+		const match = line.match(
+			/^(?:\[(ERROR|WARNING|WARN|INFO|INFORMATION|HINT)\]\s*[:：]?|(ERROR|WARNING|WARN|INFO|INFORMATION|HINT)\s*[:：])\s*(.+)$/i
+		)
+		if (!match) {
+			continue
+		}
+
+		const severity = match[1] ?? match[2]
+		let message = match[3].trim()
+		let codeSnippet: string | undefined
+
+		// 行番号付きのコードを送信した場合の「L開始行-終了行」を取り出す
+		let startLine: number | undefined
+		let endLine: number | undefined
+		const lineNumbers = message.match(
+			/^L(\d+)(?:\s*-\s*L?(\d+))?\s*[:：]?\s+/
+		)
+		if (lineNumbers) {
+			// 1未満の行番号を含む範囲は行番号がないものとして扱う
+			const start = toLineNumber(Number(lineNumbers[1]))
+			const end = toLineNumber(Number(lineNumbers[2] ?? lineNumbers[1]))
+			if (start !== undefined && end !== undefined) {
+				startLine = start
+				endLine = end
+			}
+			message = message.slice(lineNumbers[0].length)
+		}
+
+		// 行内のインラインコードをスニペットとして扱う
+		const inlineCode = message.match(/`([^`]+)`\s*$/)
+		if (inlineCode) {
+			codeSnippet = inlineCode[1]
+			message = message.slice(0, inlineCode.index).trim()
+		}
+
+		// 直後のコードブロックをスニペットとして扱う
+		if (!codeSnippet && lines[i + 1]?.trim().startsWith('```')) {
+			const end = lines.findIndex(
+				(l, index) => index > i + 1 && l.trim().startsWith('```')
+			)
+			if (end > 0) {
+				codeSnippet = lines.slice(i + 2, end).join('\n')
+				i = end
+			}
+		}
+
+		if (message) {
+			items.push({
+				severity: normalizeSeverity(severity),
+				message: message.replace(/[:：]\s*$/, ''),
+				codeSnippet,
+				...(startLine !== undefined ? { startLine, endLine } : {}),
+			})
+		}
+	}
+	return items
+}
+
+function toRawReviewItem(value: unknown): RawReviewItem | null {
+	if (!value || typeof value !== 'object') {
+		return null
+	}
+	const item = value as Record<string, unknown>
+	if (typeof item.message !== 'string' || item.message.trim() === '') {
+		return null
+	}
+	const startLine = toLineNumber(item.startLine)
+	return {
+		severity: normalizeSeverity(String(item.severity ?? '')),
+		message: item.message,
+		rationale:
+			typeof item.rationale === 'string' && item.rationale.trim()
+				? item.rationale.trim()
+				: undefined,
+		category: normalizeCategory(item.category),
+		codeSnippet:
+			typeof item.codeSnippet === 'string' ? item.codeSnippet : undefined,
+		suggestedFix:
+			typeof item.suggestedFix === 'string'
+				? item.suggestedFix
+				: undefined,
+		...(startLine !== undefined
+			? { startLine, endLine: toLineNumber(item.endLine) ?? startLine }
+			: {}),
+	}
+}
+
+// 既知の分類のみを受け付ける（大文字・小文字の違いは許容する）
+function normalizeCategory(value: unknown): FindingCategory | undefined {
+	if (typeof value !== 'string') {
+		return undefined
+	}
+	const lower = value.trim().toLowerCase()
+	return FINDING_CATEGORIES.find(
+		(category) => category.toLowerCase() === lower
+	)
+}
+
+// 1以上の整数の行番号に変換する（文字列で返された場合を含む）
+function toLineNumber(value: unknown): number | undefined {
+	const line = typeof value === 'string' ? Number(value.trim()) : value
+	return typeof line === 'number' && Number.isInteger(line) && line >= 1
+		? line
+		: undefined
+}
+
+/**
+ * 表記ゆれのある重要度を正規化する（不明な場合は INFO）
+ */
+export function normalizeSeverity(value: string): FindingSeverity {
+	switch (value.trim().toUpperCase()) {
+		case 'ERROR':
+			return 'ERROR'
+		case 'WARNING':
+		case 'WARN':
+			return 'WARNING'
+		case 'HINT':
+			return 'HINT'
+		default:
+			return 'INFO'
+	}
+}
+
+/**
+ * モデルの出力からJSONオブジェクトを寛容に読み取る
+ * （コードブロック内や前後に説明文がある場合を含む）
+ * @returns 読み取れなかった場合は null
+ */
+export function parseJsonObject(text: string): Record<string, unknown> | null {
+	for (const candidate of findJsonCandidates(stripThinking(text))) {
+		const value = tryParseJson(candidate)
+		if (value && typeof value === 'object' && !Array.isArray(value)) {
+			return value as Record<string, unknown>
+		}
+	}
+	return null
+}
+
+// <think>タグで囲まれた推論部分を除外
+function stripThinking(text: string): string {
+	return text.replace(/<think>[\s\S]*?(<\/think>|$)/g, '')
+}
+
+// JSONとして解析を試みる文字列を、可能性の高い順に列挙する
+function findJsonCandidates(text: string): string[] {
+	const candidates: string[] = []
+	for (const match of text.matchAll(/```(?:json)?\s*\n([\s\S]*?)```/g)) {
+		candidates.push(match[1])
+	}
+	const objectStart = text.indexOf('{')
+	const objectEnd = text.lastIndexOf('}')
+	if (objectStart >= 0 && objectEnd > objectStart) {
+		candidates.push(text.slice(objectStart, objectEnd + 1))
+	}
+	const arrayStart = text.indexOf('[{')
+	const arrayEnd = text.lastIndexOf(']')
+	if (arrayStart >= 0 && arrayEnd > arrayStart) {
+		candidates.push(text.slice(arrayStart, arrayEnd + 1))
+	}
+	return candidates
+}
+
+function tryParseJson(text: string): unknown {
+	try {
+		return JSON.parse(text)
+	} catch {
+		// 末尾のカンマを取り除いて再試行
+		try {
+			return JSON.parse(text.replace(/,\s*([}\]])/g, '$1'))
+		} catch {
+			return undefined
+		}
+	}
+}
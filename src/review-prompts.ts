@@ -0,0 +1,397 @@
+import { FINDING_CATEGORIES } from './review-item'
+import { OutputStrategy, ReviewLanguage } from './review-settings'
+
+/**
+ * プロンプトとツールのスキーマの文言
+ * 指摘はプロンプトと同じ言語で記述されるため、言語ごとに用意する
+ */
+export interface PromptMessages {
+	// reviewCode ツールとその引数の説明
+	schema: {
+		function: string
+		reviews: string
+		severity: string
+		message: string
+		rationale: string
+		category: string
+		codeSnippet: string
+		suggestedFix: string
+	}
+	// 出力方式ごとの回答形式の指示
+	output: Record<OutputStrategy, string[]>
+	// 既定のレビューの指示（プロジェクトのルールのテンプレートで置き換えられる）
+	defaultInstructions: string[]
+	projectRules: string
+	focus: string
+	relatedDefinitions: string[]
+	excerptHeader: (startLine: number, endLine: number) => string
+	changedTarget: string[]
+	chunkTarget: (startLine: number, endLine: number) => string[]
+	fileTarget: string[]
+	filePath: string
+	language: string
+	lineCount: (count: number) => string
+	snippet: string[]
+	suggestedFix: string
+	// 行番号付きでコードを送信する場合（locationMode: lineNumbers）の指示と、追加する引数の説明
+	lineNumbers: {
+		startLine: string
+		endLine: string
+		instructions: string[]
+		output: Record<OutputStrategy, string[]>
+	}
+	// 指摘の検証（verifyFinding ツールとその引数の説明、検証の指示）
+	verification: {
+		function: string
+		verdict: string
+		confidence: string
+		reason: string
+		codeHeader: (startLine: number, endLine: number) => string
+		findingHeader: string
+		severity: string
+		message: string
+		codeSnippet: string
+		instructions: string[]
+		output: Record<OutputStrategy, string[]>
+	}
+	// 指摘の説明（指摘ごとの会話で、指摘の根拠や修正方法を説明させる）
+	explanation: {
+		system: string[]
+		codeHeader: (startLine: number, endLine: number) => string
+		findingHeader: string
+		location: (startLine: number, endLine: number) => string
+		severity: string
+		message: string
+		codeSnippet: string
+		suggestedFix: string
+		request: string[]
+	}
+}
+
+// 分類はいずれかの値を「|」で区切って示す
+const CATEGORY_FORMAT = FINDING_CATEGORIES.join('|')
+
+const JSON_FORMAT = `{"reviews": [{"severity": "...", "message": "...", "rationale": "...", "category": "${CATEGORY_FORMAT}", "codeSnippet": "...", "suggestedFix": "..."}]}`
+
+const LINE_NUMBERS_JSON_FORMAT = `{"reviews": [{"severity": "...", "message": "...", "rationale": "...", "category": "${CATEGORY_FORMAT}", "startLine": 1, "endLine": 1, "codeSnippet": "...", "suggestedFix": "..."}]}`
+
+const VERIFICATION_JSON_FORMAT =
+	'{"verdict": "confirm", "confidence": 0.8, "reason": "..."}'
+
+export const PROMPT_MESSAGES: Record<ReviewLanguage, PromptMessages> = {
+	ja: {
+		schema: {
+			function: 'ソースコードのレビューを行い、問題点を指摘します',
+			reviews: 'レビュー結果の配列',
+			severity:
+				'問題の重要度（ERROR:実行時エラーや深刻なバグ、WARNING:パフォーマンス問題や潜在バグ、INFO:コード品質や可読性、HINT:スタイルや命名規則）',
+			message: '問題の内容説明（日本語で簡潔に記述）',
+			rationale:
+				'問題の根拠と影響の詳しい説明（日本語で記述）。どのような状況で問題が起きるか、なぜ修正が必要かを含める',
+			category:
+				'問題の分類（bug:バグ、security:セキュリティ、performance:パフォーマンス、errorHandling:エラー処理、concurrency:並行処理、apiMisuse:APIの誤用、maintainability:保守性・可読性、style:スタイル・命名）',
+			codeSnippet:
+				'問題のある該当コードの断片。行番号は不要で、最小限の判別可能なコードブロックを記載。変数名や関数名など特徴的な部分を含めること',
+			suggestedFix:
+				'codeSnippetをそのまま置き換えられる修正後のコード。インデントを含めて元のコードと同じ形式で記載。修正案がない場合は省略',
+		},
+		output: {
+			tools: [
+				'レビュー結果は reviewCode ツールを呼び出して報告してください。',
+			],
+			auto: [
+				'レビュー結果は reviewCode ツールを呼び出して報告してください。',
+				`ツールを呼び出せない場合は、${JSON_FORMAT} の形式のJSONのみを出力してください。`,
+			],
+			jsonSchema: [
+				`レビュー結果は ${JSON_FORMAT} の形式のJSONのみで出力してください。`,
+			],
+			text: [
+				'レビュー結果は、1件の指摘につき1行で次の形式で出力してください。それ以外の説明は不要です。',
+				'[重要度] 指摘内容 `コードスニペット`',
+				'指摘がない場合は「指摘なし」とだけ出力してください。',
+			],
+		},
+		defaultInstructions: [
+			'重要度は次の4つのいずれかから選択してください: [ERROR], [WARNING], [INFO], [HINT]',
+			'- [ERROR]: 実行時エラーや深刻なバグ、セキュリティの脆弱性など',
+			'- [WARNING]: ベストプラクティス違反、パフォーマンスの問題、潜在的なバグなど',
+			'- [INFO]: コードの品質や可読性に関する提案',
+			'- [HINT]: スタイル、命名、コメント、ドキュメントなどに関する提案や改善点',
+			'指摘は直接的で簡潔な日本語で、コードの改善点を具体的に示してください。',
+			'同じ問題の繰り返しは避け、各問題は一度だけ報告してください。',
+		],
+		projectRules:
+			'次のプロジェクトのルールに違反している箇所も指摘してください:',
+		focus: '特に次の観点を重点的に確認してください:',
+		relatedDefinitions: [
+			'次はレビュー対象のコードが参照している、ほかのファイルで定義されたシンボルの情報です。',
+			'これらのシンボルは定義済みとして扱い、シグネチャやドキュメントの内容に沿って使われているかを確認してください。',
+		],
+		excerptHeader: (startLine, endLine) =>
+			`----- 抜粋 (${startLine}-${endLine}行) -----`,
+		changedTarget: [
+			'上記は変更された箇所とその周辺のコードの抜粋です。変更された行に関する問題点のみを診断してください。',
+			'抜粋の区切り行はコードの一部ではないため、コードスニペットに含めないでください。',
+		],
+		chunkTarget: (startLine, endLine) => [
+			`上記はファイルの一部（${startLine}-${endLine}行目）です。このコードをレビューし、問題点を診断してください。`,
+			'このコードの外側で定義されている変数や関数は、存在するものとして扱ってください。',
+		],
+		fileTarget: [
+			'上記のソースコードをレビューし、問題点を診断してください。',
+		],
+		filePath: 'ファイルパス',
+		language: '言語',
+		lineCount: (count) => `コードの長さ: ${count}行`,
+		snippet: [
+			'重要：位置情報（行番号や列番号）を指定しないでください。代わりに、問題のある箇所を特定できるコードスニペットを提供してください。',
+			'コードスニペットには最小限の必要なコンテキスト（変数名、関数名、特徴的な式など）を含めてください。',
+		],
+		suggestedFix:
+			'修正方法が明確な場合は、コードスニペットを置き換える修正後のコードを suggestedFix として提供してください。',
+		lineNumbers: {
+			startLine:
+				'問題のある箇所の開始行の行番号（コードの各行の先頭に付いている番号）',
+			endLine:
+				'問題のある箇所の終了行の行番号（1行の場合は startLine と同じ）',
+			instructions: [
+				'コードの各行の先頭には「行番号| 」が付いています。行番号はコードの一部ではありません。',
+				'各指摘には、問題のある箇所の開始行（startLine）と終了行（endLine）の行番号を指定してください。',
+				'あわせて、問題のある箇所を特定できるコードスニペットを、行番号を除いて提供してください。',
+			],
+			output: {
+				tools: [
+					'レビュー結果は reviewCode ツールを呼び出して報告してください。',
+				],
+				auto: [
+					'レビュー結果は reviewCode ツールを呼び出して報告してください。',
+					`ツールを呼び出せない場合は、${LINE_NUMBERS_JSON_FORMAT} の形式のJSONのみを出力してください。`,
+				],
+				jsonSchema: [
+					`レビュー結果は ${LINE_NUMBERS_JSON_FORMAT} の形式のJSONのみで出力してください。`,
+				],
+				text: [
+					'レビュー結果は、1件の指摘につき1行で次の形式で出力してください。それ以外の説明は不要です。',
+					'[重要度] L開始行-終了行 指摘内容 `コードスニペット`',
+					'指摘がない場合は「指摘なし」とだけ出力してください。',
+				],
+			},
+		},
+		verification: {
+			function: 'コードレビューの指摘が正しいかを判定します',
+			verdict:
+				'判定結果（confirm:指摘された問題が実際に存在する、reject:問題が存在しない、または誤解に基づく指摘）',
+			confidence: '指摘が正しい確信度（0〜1の数値）',
+			reason: '判定の理由（日本語で簡潔に記述）',
+			codeHeader: (startLine, endLine) =>
+				`次のコード（${startLine}-${endLine}行目）に対するレビューの指摘が正しいかを検証してください。`,
+			findingHeader: '検証する指摘:',
+			severity: '重要度',
+			message: '内容',
+			codeSnippet: '該当コード',
+			instructions: [
+				'コードを注意深く読み、指摘された問題が実際に存在するかを判定してください。',
+				'存在しない変数や関数を前提とした指摘、コードの内容と矛盾する指摘、根拠のない推測に基づく指摘は reject としてください。',
+				'confidence には、指摘が正しい確信度を0（確実に誤り）から1（確実に正しい）の数値で指定してください。',
+			],
+			output: {
+				tools: [
+					'判定結果は verifyFinding ツールを呼び出して報告してください。',
+				],
+				auto: [
+					'判定結果は verifyFinding ツールを呼び出して報告してください。',
+					`ツールを呼び出せない場合は、${VERIFICATION_JSON_FORMAT} の形式のJSONのみを出力してください。`,
+				],
+				jsonSchema: [
+					`判定結果は ${VERIFICATION_JSON_FORMAT} の形式のJSONのみで出力してください。`,
+				],
+				text: [
+					`判定結果は ${VERIFICATION_JSON_FORMAT} の形式のJSONのみで出力してください。それ以外の説明は不要です。`,
+				],
+			},
+		},
+		explanation: {
+			system: [
+				'あなたはコードレビューの指摘について質問に答えるレビュアーです。',
+				'回答は日本語のMarkdownで記述し、コードを示す場合はコードブロックを使用してください。',
+				'コードに書かれていないことを推測で断定せず、確認が必要な点はその旨を明記してください。',
+				'指摘が誤っていると判断した場合は、その理由を率直に説明してください。',
+			],
+			codeHeader: (startLine, endLine) =>
+				`コード（${startLine}-${endLine}行目、各行の先頭は行番号）:`,
+			findingHeader: 'レビューの指摘:',
+			location: (startLine, endLine) =>
+				startLine === endLine
+					? `位置: ${startLine}行目`
+					: `位置: ${startLine}-${endLine}行目`,
+			severity: '重要度',
+			message: '内容',
+			codeSnippet: '該当コード',
+			suggestedFix: '修正案',
+			request: [
+				'この指摘について、次の点を説明してください。',
+				'- どのような問題で、なぜ問題になるのか（問題が起きる具体的な状況や入力の例）',
+				'- 問題を修正する方法（修正後のコードの例）',
+				'- 指摘が当てはまらない可能性がある場合は、その条件',
+			],
+		},
+	},
+	en: {
+		schema: {
+			function: 'Reviews source code and reports problems',
+			reviews: 'Array of review findings',
+			severity:
+				'Severity of the problem (ERROR: runtime errors and serious bugs, WARNING: performance problems and potential bugs, INFO: code quality and readability, HINT: style and naming)',
+			message: 'Concise description of the problem in English',
+			rationale:
+				'Detailed explanation of why this is a problem and its impact, in English. Include the situations in which the problem occurs and why it should be fixed',
+			category:
+				'Category of the problem (bug, security, performance, errorHandling, concurrency, apiMisuse: API misuse, maintainability: maintainability and readability, style: style and naming)',
+			codeSnippet:
+				'The fragment of code that has the problem. Do not include line numbers; give the smallest block that identifies the location, including distinctive parts such as variable or function names',
+			suggestedFix:
+				'Corrected code that can replace codeSnippet as-is, in the same format as the original including indentation. Omit when there is no fix',
+		},
+		output: {
+			tools: [
+				'Report the review results by calling the reviewCode tool.',
+			],
+			auto: [
+				'Report the review results by calling the reviewCode tool.',
+				`If you cannot call tools, output only JSON in the form ${JSON_FORMAT}.`,
+			],
+			jsonSchema: [
+				`Output the review results only as JSON in the form ${JSON_FORMAT}.`,
+			],
+			text: [
+				'Output one finding per line in the following format. No other explanation is needed.',
+				'[SEVERITY] description `code snippet`',
+				'If there are no findings, output only "No findings".',
+			],
+		},
+		defaultInstructions: [
+			'Choose the severity from one of the following four: [ERROR], [WARNING], [INFO], [HINT]',
+			'- [ERROR]: runtime errors, serious bugs, security vulnerabilities, etc.',
+			'- [WARNING]: best practice violations, performance problems, potential bugs, etc.',
+			'- [INFO]: suggestions about code quality and readability',
+			'- [HINT]: suggestions and improvements about style, naming, comments, documentation, etc.',
+			'Write findings in direct and concise English, and describe concretely how to improve the code.',
+			'Avoid repeating the same problem; report each problem only once.',
+		],
+		projectRules:
+			'Also report code that violates the following project rules:',
+		focus: 'Pay particular attention to the following aspects:',
+		relatedDefinitions: [
+			'The following are symbols referenced by the code under review that are defined in other files.',
+			'Treat these symbols as defined, and check that they are used according to their signatures and documentation.',
+		],
+		excerptHeader: (startLine, endLine) =>
+			`----- Excerpt (lines ${startLine}-${endLine}) -----`,
+		changedTarget: [
+			'The above is an excerpt of the changed code and its surroundings. Diagnose only problems related to the changed lines.',
+			'The excerpt separator lines are not part of the code, so do not include them in code snippets.',
+		],
+		chunkTarget: (startLine, endLine) => [
+			`The above is part of a file (lines ${startLine}-${endLine}). Review this code and diagnose problems.`,
+			'Treat variables and functions defined outside this code as existing.',
+		],
+		fileTarget: ['Review the source code above and diagnose problems.'],
+		filePath: 'File path',
+		language: 'Language',
+		lineCount: (count) => `Code length: ${count} lines`,
+		snippet: [
+			'Important: do not specify positions (line or column numbers). Instead, provide a code snippet that identifies the problematic location.',
+			'Include the minimum necessary context in code snippets (variable names, function names, distinctive expressions, etc.).',
+		],
+		suggestedFix:
+			'When the fix is clear, provide the corrected code that replaces the code snippet as suggestedFix.',
+		lineNumbers: {
+			startLine:
+				'Line number where the problem starts (the number at the beginning of each line of code)',
+			endLine:
+				'Line number where the problem ends (same as startLine for a single line)',
+			instructions: [
+				'Each line of code is prefixed with "line number| ". The line numbers are not part of the code.',
+				'For each finding, specify the line numbers where the problem starts (startLine) and ends (endLine).',
+				'Also provide a code snippet that identifies the problematic location, without the line number prefixes.',
+			],
+			output: {
+				tools: [
+					'Report the review results by calling the reviewCode tool.',
+				],
+				auto: [
+					'Report the review results by calling the reviewCode tool.',
+					`If you cannot call tools, output only JSON in the form ${LINE_NUMBERS_JSON_FORMAT}.`,
+				],
+				jsonSchema: [
+					`Output the review results only as JSON in the form ${LINE_NUMBERS_JSON_FORMAT}.`,
+				],
+				text: [
+					'Output one finding per line in the following format. No other explanation is needed.',
+					'[SEVERITY] Lstart-end description `code snippet`',
+					'If there are no findings, output only "No findings".',
+				],
+			},
+		},
+		verification: {
+			function: 'Judges whether a code review finding is correct',
+			verdict:
+				'Verdict (confirm: the reported problem actually exists, reject: the problem does not exist or the finding is based on a misunderstanding)',
+			confidence:
+				'Confidence that the finding is correct (a number from 0 to 1)',
+			reason: 'Concise reason for the verdict in English',
+			codeHeader: (startLine, endLine) =>
+				`Verify whether the following review finding about this code (lines ${startLine}-${endLine}) is correct.`,
+			findingHeader: 'Finding to verify:',
+			severity: 'Severity',
+			message: 'Description',
+			codeSnippet: 'Code',
+			instructions: [
+				'Read the code carefully and judge whether the reported problem actually exists.',
+				'Reject findings that assume variables or functions that do not exist, contradict the code, or are based on unfounded speculation.',
+				'Set confidence to a number from 0 (certainly wrong) to 1 (certainly correct) indicating how confident you are that the finding is correct.',
+			],
+			output: {
+				tools: [
+					'Report the verdict by calling the verifyFinding tool.',
+				],
+				auto: [
+					'Report the verdict by calling the verifyFinding tool.',
+					`If you cannot call tools, output only JSON in the form ${VERIFICATION_JSON_FORMAT}.`,
+				],
+				jsonSchema: [
+					`Output the verdict only as JSON in the form ${VERIFICATION_JSON_FORMAT}.`,
+				],
+				text: [
+					`Output the verdict only as JSON in the form ${VERIFICATION_JSON_FORMAT}. No other explanation is needed.`,
+				],
+			},
+		},
+		explanation: {
+			system: [
+				'You are a reviewer answering questions about a code review finding.',
+				'Answer in English using Markdown, and use code blocks when showing code.',
+				'Do not state guesses about things not written in the code as facts; say so when something needs to be checked.',
+				'If you conclude that the finding is wrong, explain why frankly.',
+			],
+			codeHeader: (startLine, endLine) =>
+				`Code (lines ${startLine}-${endLine}, each line starts with its line number):`,
+			findingHeader: 'Review finding:',
+			location: (startLine, endLine) =>
+				startLine === endLine
+					? `Location: line ${startLine}`
+					: `Location: lines ${startLine}-${endLine}`,
+			severity: 'Severity',
+			message: 'Description',
+			codeSnippet: 'Code',
+			suggestedFix: 'Suggested fix',
+			request: [
+				'Explain the following about this finding.',
+				'- What the problem is and why it matters (a concrete situation or input that triggers it)',
+				'- How to fix it (an example of the fixed code)',
+				'- The conditions under which the finding might not apply, if any',
+			],
+		},
+	},
+}
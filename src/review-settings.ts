@@ -0,0 +1,197 @@
+import { ProviderType } from './llm-providers'
+
+/**
+ * レビュー結果の出力方式
+ * - tools: Function Calling（tool_calls）で受け取る
+ * - jsonSchema: response_format のJSONスキーマで制約した本文を受け取る
+ * - text: 指定した形式のテキストを受け取り、寛容なパーサーで解析する
+ * - auto: Function Calling を試み、tool_calls がなければ本文を解析する
+ */
+export type OutputStrategy = 'auto' | 'tools' | 'jsonSchema' | 'text'
+
+/**
+ * 指摘の位置の伝え方
+ * - snippet: 行番号を使わず、コードスニペットから位置を特定する
+ * - lineNumbers: 行番号付きのコードを送信し、開始行・終了行とコードスニペットを照合して位置を特定する
+ */
+export type LocationMode = 'snippet' | 'lineNumbers'
+
+/**
+ * モデルが指摘を記述する言語
+ */
+export type ReviewLanguage = 'en' | 'ja'
+
+/**
+ * 検証で確信度がしきい値を下回った指摘の扱い
+ * - drop: 指摘から除外する
+ * - downgrade: 重要度を HINT に下げて残す
+ */
+export type LowConfidenceAction = 'drop' | 'downgrade'
+
+/**
+ * アンサンブルでレビューに使用するモデル
+ * 省略した項目は通常の設定（llmLint.provider など）の値を使用する
+ */
+export interface EnsembleModel {
+	// 指摘に表示する名前（省略時はモデル名）
+	name?: string
+	provider?: ProviderType
+	baseUrl?: string
+	port?: number
+	model: string
+	// 通常の設定のヘッダーに追加する
+	headers?: Record<string, string>
+}
+
+/**
+ * レビューの実行に必要な設定
+ * VS Code の設定（llmLint.*）と、CLIの設定ファイルの両方から作成する
+ */
+export interface ReviewSettings {
+	provider: ProviderType
+	baseUrl: string
+	model: string
+	// cpuThreads の値 (0=デフォルト)
+	threads: number
+	headers: Record<string, string>
+	stream: boolean
+	outputStrategy: OutputStrategy
+	locationMode: LocationMode
+	diffContextLines: number
+	maxChunkTokens: number
+	// プロンプトと指摘の言語
+	language: ReviewLanguage
+	// 指摘ごとにモデルに検証させ、確信度を付与する
+	verifyFindings: boolean
+	// 確信度（0〜1）がこの値を下回る指摘を lowConfidenceAction に従って扱う
+	verificationThreshold: number
+	lowConfidenceAction: LowConfidenceAction
+	// 指定した場合は、通常のモデルの代わりにこれらのモデルでレビューし、指摘をまとめる
+	ensembleModels: EnsembleModel[]
+	// アンサンブルで、この数以上のモデルが報告した指摘のみを表示する
+	minAgreement: number
+}
+
+/**
+ * 設定値を取得する関数（キーは llmLint. を除いた名前）
+ */
+export type SettingGetter = <T>(key: string) => T | undefined
+
+/**
+ * @param locale reviewLanguage が auto の場合に使用する表示言語（VS Code の表示言語やOSのロケール）
+ */
+export function resolveReviewSettings(
+	get: SettingGetter,
+	locale = 'en'
+): ReviewSettings {
+	return {
+		provider: get<ProviderType>('provider') ?? 'lmstudio',
+		baseUrl: resolveBaseUrl(
+			get<string>('baseUrl'),
+			get<number>('port') ?? 1234
+		),
+		model: get<string>('model') ?? 'qwen3-30b-a3b-mlx',
+		threads: get<number>('threads') ?? 4,
+		headers: get<Record<string, string>>('headers') ?? {},
+		stream: get<boolean>('stream') ?? true,
+		outputStrategy: resolveOutputStrategy(
+			get<OutputStrategy>('outputStrategy') ?? 'auto',
+			get<boolean>('useFunctionCalling') ?? true
+		),
+		locationMode: get<LocationMode>('locationMode') ?? 'snippet',
+		diffContextLines: get<number>('diffContextLines') ?? 3,
+		maxChunkTokens: get<number>('maxChunkTokens') ?? 4000,
+		language: resolveReviewLanguage(
+			get<string>('reviewLanguage') ?? 'auto',
+			locale
+		),
+		verifyFindings: get<boolean>('verifyFindings') ?? false,
+		verificationThreshold: Math.min(
+			1,
+			Math.max(0, get<number>('verificationThreshold') ?? 0.5)
+		),
+		lowConfidenceAction:
+			get<LowConfidenceAction>('lowConfidenceAction') ?? 'downgrade',
+		ensembleModels: (get<EnsembleModel[]>('ensembleModels') ?? []).filter(
+			(model) => typeof model?.model === 'string' && model.model !== ''
+		),
+		minAgreement: Math.max(1, Math.floor(get<number>('minAgreement') ?? 1)),
+	}
+}
+
+/**
+ * アンサンブルの各モデルでレビューするための設定を作成する
+ * アンサンブルが設定されていない場合は、通常のモデルのみを返す
+ */
+export function expandEnsembleSettings(
+	settings: ReviewSettings
+): Array<{ name: string; settings: ReviewSettings }> {
+	if (settings.ensembleModels.length === 0) {
+		return [{ name: settings.model, settings }]
+	}
+	return settings.ensembleModels.map((model) => ({
+		name: model.name || model.model,
+		settings: {
+			...settings,
+			provider: model.provider ?? settings.provider,
+			// ポートのみを指定した場合は localhost のそのポートに接続する
+			baseUrl:
+				model.baseUrl || model.port !== undefined
+					? resolveBaseUrl(model.baseUrl, model.port ?? 1234)
+					: settings.baseUrl,
+			model: model.model,
+			headers: { ...settings.headers, ...model.headers },
+			ensembleModels: [],
+		},
+	}))
+}
+
+/**
+ * 指摘の言語を決定する
+ * auto の場合は表示言語が日本語であれば日本語、それ以外は英語とする
+ */
+export function resolveReviewLanguage(
+	language: string,
+	locale: string
+): ReviewLanguage {
+	if (language === 'en' || language === 'ja') {
+		return language
+	}
+	return locale.toLowerCase().startsWith('ja') ? 'ja' : 'en'
+}
+
+/**
+ * ベースURLが未指定の場合は従来通り localhost のポートに接続する
+ */
+export function resolveBaseUrl(
+	baseUrl: string | undefined,
+	port: number
+): string {
+	return (baseUrl || `http://localhost:${port}`).trim().replace(/\/+$/, '')
+}
+
+/**
+ * URLのオリジン（スキーム・ホスト・ポート）を返す
+ * @returns URLとして解析できない場合は undefined
+ */
+export function getUrlOrigin(url: string): string | undefined {
+	try {
+		return new URL(url).origin
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * 出力方式を決定する
+ * useFunctionCalling が無効の場合、Function Calling を使う方式はテキスト方式に切り替える
+ */
+export function resolveOutputStrategy(
+	strategy: OutputStrategy,
+	useFunctionCalling: boolean
+): OutputStrategy {
+	if (!useFunctionCalling && (strategy === 'auto' || strategy === 'tools')) {
+		return 'text'
+	}
+	return strategy
+}
@@ -0,0 +1,284 @@
+/**
+ * レビューの指摘の検証
+ * 指摘ごとに該当箇所の周辺のコードとともにモデルに送信し、
+ * 実際に問題が存在するか（confirm / reject）と確信度を判定させる
+ */
+
+import {
+	ChatRequestOptions,
+	ReviewLogger,
+	sendChatRequest,
+} from './chat-client'
+import { LineRange } from './line-ranges'
+import { ChatMessage } from './llm-providers'
+import { LocatedReviewItem } from './review-item'
+import { parseJsonObject } from './review-parser'
+import { PROMPT_MESSAGES, PromptMessages } from './review-prompts'
+import { OutputStrategy, ReviewSettings } from './review-settings'
+import { SourceText } from './source-text'
+
+// 検証で送信する、指摘の前後のコードの行数
+const VERIFICATION_CONTEXT_LINES = 10
+
+/**
+ * verifyFinding ツールで返される判定結果
+ */
+interface VerificationResult {
+	verdict: 'confirm' | 'reject'
+	// 指摘が正しい確信度（0〜1）
+	confidence: number
+	reason: string
+}
+
+function buildVerificationParametersSchema(messages: PromptMessages) {
+	return {
+		type: 'object',
+		properties: {
+			verdict: {
+				type: 'string',
+				enum: ['confirm', 'reject'],
+				description: messages.verification.verdict,
+			},
+			confidence: {
+				type: 'number',
+				minimum: 0,
+				maximum: 1,
+				description: messages.verification.confidence,
+			},
+			reason: {
+				type: 'string',
+				description: messages.verification.reason,
+			},
+		},
+		required: ['verdict', 'confidence', 'reason'],
+	}
+}
+
+/**
+ * 検証を依頼するプロンプトを作成する
+ * 指摘の位置が特定できない場合は、レビューしたチャンク（またはファイル全体）を送信する
+ */
+function buildVerificationPrompt(
+	item: LocatedReviewItem,
+	source: SourceText,
+	settings: ReviewSettings,
+	chunk?: LineRange
+): string {
+	const messages = PROMPT_MESSAGES[settings.language].verification
+	const region: LineRange = item.range
+		? {
+				startLine: Math.max(
+					0,
+					item.range.start.line - VERIFICATION_CONTEXT_LINES
+				),
+				endLine: Math.min(
+					source.lineCount - 1,
+					item.range.end.line + VERIFICATION_CONTEXT_LINES
+				),
+		  }
+		: chunk ?? { startLine: 0, endLine: source.lineCount - 1 }
+	return [
+		messages.codeHeader(region.startLine + 1, region.endLine + 1),
+		'```',
+		source.getText(source.rangeOfLines(region)),
+		'```',
+		messages.findingHeader,
+		`- ${messages.severity}: ${item.severity}`,
+		`- ${messages.message}: ${item.message}`,
+		...(item.codeSnippet
+			? [`- ${messages.codeSnippet}:`, '```', item.codeSnippet, '```']
+			: []),
+		'',
+		...messages.instructions,
+		'',
+		...messages.output[settings.outputStrategy],
+	].join('\n')
+}
+
+/**
+ * 指摘ごとにモデルに検証させ、確信度と判定理由を付与する
+ * 確信度がしきい値を下回る指摘は、設定に従って除外するか重要度を HINT に下げる
+ * 検証のリクエストに失敗した指摘は、検証していない指摘としてそのまま残す（中断は例外として通知する）
+ */
+export async function verifyReviewItems(
+	items: LocatedReviewItem[],
+	source: SourceText,
+	settings: ReviewSettings,
+	log: ReviewLogger,
+	options: ChatRequestOptions & { chunk?: LineRange } = {}
+): Promise<LocatedReviewItem[]> {
+	const verified: LocatedReviewItem[] = []
+	for (const item of items) {
+		let result: VerificationResult | null
+		try {
+			result = await verifyReviewItem(
+				item,
+				source,
+				settings,
+				log,
+				options
+			)
+		} catch (e) {
+			if (options.signal?.aborted) {
+				throw e
+			}
+			log(`[llm-reviewer] 指摘の検証に失敗しました: ${e}`)
+			result = null
+		}
+		if (!result) {
+			verified.push(item)
+			continue
+		}
+		log(
+			`[llm-reviewer] 検証結果: ${result.verdict} (確信度 ${result.confidence}) ${item.message}`
+		)
+		verified.push({
+			...item,
+			confidence: result.confidence,
+			verificationReason: result.reason || undefined,
+		})
+	}
+	return applyConfidenceThreshold(verified, settings, log)
+}
+
+async function verifyReviewItem(
+	item: LocatedReviewItem,
+	source: SourceText,
+	settings: ReviewSettings,
+	log: ReviewLogger,
+	options: ChatRequestOptions & { chunk?: LineRange }
+): Promise<VerificationResult | null> {
+	const strategy = settings.outputStrategy
+	const messages = PROMPT_MESSAGES[settings.language]
+	const useTools = strategy === 'tools' || strategy === 'auto'
+	const prompt = buildVerificationPrompt(
+		item,
+		source,
+		settings,
+		options.chunk
+	)
+
+	const message = await sendChatRequest(
+		settings,
+		{
+			messages: [{ role: 'user', content: prompt }],
+			...(useTools
+				? {
+						tools: [
+							{
+								type: 'function',
+								function: {
+									description: messages.verification.function,
+									name: 'verifyFinding',
+									parameters:
+										buildVerificationParametersSchema(
+											messages
+										),
+								},
+							},
+						],
+						toolChoice: 'auto',
+				  }
+				: {}),
+			...(strategy === 'jsonSchema'
+				? {
+						responseSchema: {
+							name: 'verifyFinding',
+							schema: buildVerificationParametersSchema(messages),
+						},
+				  }
+				: {}),
+		},
+		log,
+		'指摘の検証をリクエスト中...',
+		options
+	)
+
+	const result = message ? extractVerificationResult(message, strategy) : null
+	if (!result) {
+		log('[llm-reviewer] 検証結果を解析できません')
+	}
+	return result
+}
+
+/**
+ * 出力方式に応じて、モデルの応答から判定結果を取り出す
+ * @returns 取り出せなかった場合は null
+ */
+function extractVerificationResult(
+	message: ChatMessage,
+	strategy: OutputStrategy
+): VerificationResult | null {
+	const toolCall = message.tool_calls?.find(
+		(call) => call.function?.name === 'verifyFinding'
+	)
+	if (toolCall) {
+		return toVerificationResult(
+			parseJsonObject(toolCall.function.arguments)
+		)
+	}
+	if (strategy === 'tools') {
+		return null
+	}
+	return toVerificationResult(parseJsonObject(message.content ?? ''))
+}
+
+function toVerificationResult(
+	value: Record<string, unknown> | null
+): VerificationResult | null {
+	const verdict = String(value?.verdict ?? '')
+		.trim()
+		.toLowerCase()
+	if (!value || (verdict !== 'confirm' && verdict !== 'reject')) {
+		return null
+	}
+
+	let confidence = Number(value.confidence)
+	if (value.confidence === undefined || !Number.isFinite(confidence)) {
+		confidence = verdict === 'confirm' ? 1 : 0
+	} else if (confidence > 1) {
+		// パーセントで返された場合
+		confidence /= 100
+	}
+	confidence = Math.min(1, Math.max(0, confidence))
+	// reject で高い値の場合は判定そのものの確信度とみなし、指摘が正しい確信度に読み替える
+	if (verdict === 'reject' && confidence > 0.5) {
+		confidence = 1 - confidence
+	}
+
+	return {
+		verdict,
+		confidence: Math.round(confidence * 100) / 100,
+		reason: typeof value.reason === 'string' ? value.reason.trim() : '',
+	}
+}
+
+/**
+ * 確信度がしきい値を下回る指摘を、設定に従って除外するか重要度を HINT に下げる
+ */
+function applyConfidenceThreshold(
+	items: LocatedReviewItem[],
+	settings: ReviewSettings,
+	log: ReviewLogger
+): LocatedReviewItem[] {
+	const isLowConfidence = (item: LocatedReviewItem) =>
+		item.confidence !== undefined &&
+		item.confidence < settings.verificationThreshold
+	const lowConfidenceCount = items.filter(isLowConfidence).length
+	if (lowConfidenceCount === 0) {
+		return items
+	}
+
+	if (settings.lowConfidenceAction === 'drop') {
+		log(
+			`[llm-reviewer] 確信度が${settings.verificationThreshold}未満の指摘を${lowConfidenceCount}件除外しました`
+		)
+		return items.filter((item) => !isLowConfidence(item))
+	}
+	log(
+		`[llm-reviewer] 確信度が${settings.verificationThreshold}未満の指摘${lowConfidenceCount}件の重要度を HINT に下げました`
+	)
+	return items.map((item) =>
+		isLowConfidence(item) ? { ...item, severity: 'HINT' } : item
+	)
+}
@@ -0,0 +1,290 @@
+import { SourceText, TextRange } from './source-text'
+
+// 近似一致として採用する一致度の下限
+const MIN_MATCH_SCORE = 0.6
+// 近似一致を行うスニペットのトークン数の下限（短いスニペットは完全一致のみとする）
+const MIN_FUZZY_TOKENS = 3
+// 複数の箇所に同じ度合いで一致し、絞り込めなかった場合の一致度の係数
+const AMBIGUOUS_MATCH_PENALTY = 0.75
+// 指摘内容のヒントを探す、一致した箇所の前後の行数
+const HINT_CONTEXT_LINES = 2
+
+/**
+ * コードスニペットの位置の特定結果
+ */
+export interface SnippetMatch {
+	range: TextRange
+	// 一致の度合い（1: 空白・引用符・セミコロンの違いを除いて完全に一致し、一意に特定できた）
+	score: number
+}
+
+interface Token {
+	// 比較用に正規化したテキスト
+	text: string
+	offset: number
+	length: number
+}
+
+// トークン化したソースコード（同じソースコードの指摘ごとに分割しないようにする）
+const tokenCache = new WeakMap<SourceText, Token[]>()
+
+/**
+ * コードスニペットのソースコード内での範囲を、一致の度合いとともに返す
+ * コードとスニペットをトークンに分割して近似的に照合するため、
+ * モデルが変えた空白・引用符・セミコロンの違いや、一部のトークンの欠落・追加を許容する
+ * 複数の箇所に一致する場合は、指摘内容に含まれる識別子が周辺にある箇所を優先する
+ * 検索範囲が指定されている場合、範囲内で見つからなければソースコード全体を検索する
+ * @param message 指摘の内容（複数の箇所に一致する場合の絞り込みに使用）
+ */
+export function locateCodeSnippet(
+	snippet: string | undefined,
+	source: SourceText,
+	searchRange?: TextRange,
+	message?: string
+): SnippetMatch | null {
+	if (!snippet?.trim()) {
+		return null
+	}
+	if (searchRange) {
+		const matchInRange = locateInTokens(
+			snippet,
+			source,
+			message,
+			searchRange
+		)
+		if (matchInRange) {
+			return matchInRange
+		}
+	}
+	return locateInTokens(snippet, source, message)
+}
+
+function locateInTokens(
+	snippet: string,
+	source: SourceText,
+	message: string | undefined,
+	searchRange?: TextRange
+): SnippetMatch | null {
+	const pattern = tokenize(snippet)
+	if (pattern.length === 0) {
+		return null
+	}
+	const tokens = getSourceTokens(source, searchRange)
+
+	// 許容するトークンの不一致（短いスニペットは完全一致のみ）
+	const maxCost =
+		pattern.length < MIN_FUZZY_TOKENS
+			? 0
+			: Math.floor(pattern.length * (1 - MIN_MATCH_SCORE))
+	const candidates = alignSnippet(pattern, tokens, maxCost)
+	if (candidates.length === 0) {
+		return null
+	}
+
+	// 最も一致の度合いが高い候補のうち、指摘内容の識別子が周辺に多い候補を選ぶ
+	const bestCost = Math.min(...candidates.map((c) => c.cost))
+	const best = candidates.filter((c) => c.cost === bestCost)
+	// 末尾のセミコロンはトークンに含めないため、スニペットとコードの両方にあれば範囲に含める
+	const includesSemicolon = /;\s*$/.test(snippet)
+	const toRange = (candidate: AlignmentCandidate): TextRange => {
+		const last = tokens[candidate.end - 1]
+		const end = last.offset + last.length
+		return {
+			start: source.positionAt(tokens[candidate.start].offset),
+			end: source.positionAt(
+				includesSemicolon && source.text[end] === ';' ? end + 1 : end
+			),
+		}
+	}
+	let chosen = best[0]
+	let ambiguous = best.length > 1
+	if (ambiguous && message) {
+		const hints = extractHints(message)
+		const hintScores = best.map((candidate) =>
+			scoreHints(hints, source, toRange(candidate))
+		)
+		const maxHintScore = Math.max(...hintScores)
+		const top = best.filter((_, i) => hintScores[i] === maxHintScore)
+		chosen = top[0]
+		ambiguous = top.length > 1
+	}
+
+	const score = 1 - bestCost / pattern.length
+	return {
+		range: toRange(chosen),
+		score:
+			Math.round(
+				(ambiguous ? score * AMBIGUOUS_MATCH_PENALTY : score) * 100
+			) / 100,
+	}
+}
+
+/**
+ * コードをトークンに分割する
+ * 空白とセミコロンは無視し、引用符は種類を区別しない
+ */
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = []
+	for (const match of text.matchAll(
+		/[\p{L}_$][\p{L}\p{N}_$]*|\p{N}[\p{L}\p{N}_.]*|[^\s;]/gu
+	)) {
+		tokens.push({
+			text: /^['"`]$/.test(match[0]) ? '"' : match[0],
+			offset: match.index!,
+			length: match[0].length,
+		})
+	}
+	return tokens
+}
+
+function getSourceTokens(source: SourceText, searchRange?: TextRange): Token[] {
+	let tokens = tokenCache.get(source)
+	if (!tokens) {
+		tokens = tokenize(source.text)
+		tokenCache.set(source, tokens)
+	}
+	if (!searchRange) {
+		return tokens
+	}
+	const start = source.offsetAt(searchRange.start)
+	const end = source.offsetAt(searchRange.end)
+	return tokens.filter(
+		(token) => token.offset >= start && token.offset + token.length <= end
+	)
+}
+
+interface AlignmentCandidate {
+	// 一致したソースコードのトークンの範囲（end は含まない）
+	start: number
+	end: number
+	// 不一致のトークンの数（置換・欠落・追加）
+	cost: number
+}
+
+/**
+ * スニペットのトークン列をソースコードのトークン列の任意の位置に対応付け（編集距離による近似照合）、
+ * 不一致が maxCost 以下の箇所を返す（重なる箇所は最も一致するもののみ）
+ */
+function alignSnippet(
+	pattern: Token[],
+	tokens: Token[],
+	maxCost: number
+): AlignmentCandidate[] {
+	const m = pattern.length
+	const n = tokens.length
+	// cost[i][j]: スニペットの先頭 i トークンを、ソースコードの j トークン目で終わる範囲に対応付けたときの不一致
+	// 1行分のみを保持し、対応付けの開始位置を合わせて記録する
+	let prevCost = new Float64Array(n + 1)
+	let prevStart = Int32Array.from({ length: n + 1 }, (_, j) => j)
+	for (let i = 1; i <= m; i++) {
+		const cost = new Float64Array(n + 1)
+		const start = new Int32Array(n + 1)
+		cost[0] = i
+		start[0] = 0
+		for (let j = 1; j <= n; j++) {
+			const substitute =
+				prevCost[j - 1] +
+				tokenDistance(pattern[i - 1].text, tokens[j - 1].text)
+			const skipPattern = prevCost[j] + 1
+			const skipSource = cost[j - 1] + 1
+			if (substitute <= skipPattern && substitute <= skipSource) {
+				cost[j] = substitute
+				start[j] = prevStart[j - 1]
+			} else if (skipPattern <= skipSource) {
+				cost[j] = skipPattern
+				start[j] = prevStart[j]
+			} else {
+				cost[j] = skipSource
+				start[j] = start[j - 1]
+			}
+		}
+		prevCost = cost
+		prevStart = start
+	}
+
+	const candidates: AlignmentCandidate[] = []
+	for (let j = 1; j <= n; j++) {
+		const cost = prevCost[j]
+		if (cost > maxCost || prevStart[j] >= j) {
+			continue
+		}
+		const candidate = { start: prevStart[j], end: j, cost }
+		const last = candidates[candidates.length - 1]
+		if (last && candidate.start < last.end) {
+			// 重なる箇所は不一致の少ない方（同じ場合は短い方）を残す
+			if (
+				candidate.cost < last.cost ||
+				(candidate.cost === last.cost &&
+					candidate.end - candidate.start < last.end - last.start)
+			) {
+				candidates[candidates.length - 1] = candidate
+			}
+			continue
+		}
+		candidates.push(candidate)
+	}
+	return candidates
+}
+
+/**
+ * トークンの不一致の度合い（大文字・小文字のみの違いや、途中で切れたトークンは部分的な不一致とする）
+ */
+function tokenDistance(a: string, b: string): number {
+	if (a === b) {
+		return 0
+	}
+	const lowerA = a.toLowerCase()
+	const lowerB = b.toLowerCase()
+	if (
+		lowerA === lowerB ||
+		(Math.min(a.length, b.length) >= 3 &&
+			(lowerA.startsWith(lowerB) || lowerB.startsWith(lowerA)))
+	) {
+		return 0.5
+	}
+	return 1
+}
+
+/**
+ * 指摘内容から、該当箇所の手がかりとなる識別子を取り出す
+ * バッククォートで囲まれた識別子は、より強い手がかりとして扱う
+ */
+function extractHints(message: string): Map<string, number> {
+	const hints = new Map<string, number>()
+	for (const match of message.matchAll(/[A-Za-z_$][\w$]{2,}/g)) {
+		hints.set(match[0], 1)
+	}
+	for (const quoted of message.matchAll(/`([^`]+)`/g)) {
+		for (const match of quoted[1].matchAll(/[A-Za-z_$][\w$]*/g)) {
+			hints.set(match[0], 2)
+		}
+	}
+	return hints
+}
+
+/**
+ * 一致した箇所の周辺に、指摘内容の識別子がどれだけ含まれるかを評価する
+ */
+function scoreHints(
+	hints: Map<string, number>,
+	source: SourceText,
+	range: TextRange
+): number {
+	const lines: string[] = []
+	for (
+		let line = Math.max(0, range.start.line - HINT_CONTEXT_LINES);
+		line <=
+		Math.min(source.lineCount - 1, range.end.line + HINT_CONTEXT_LINES);
+		line++
+	) {
+		lines.push(source.lineAt(line))
+	}
+	const identifiers = new Set(lines.join('\n').match(/[A-Za-z_$][\w$]*/g))
+	let score = 0
+	for (const [hint, weight] of hints) {
+		if (identifiers.has(hint)) {
+			score += weight
+		}
+	}
+	return score
+}
@@ -0,0 +1,103 @@
+import { LineRange } from './line-ranges'
+
+/**
+ * 0始まりの行・列の位置
+ */
+export interface TextPosition {
+	line: number
+	character: number
+}
+
+export interface TextRange {
+	start: TextPosition
+	end: TextPosition
+}
+
+/**
+ * エディタに依存しないソースコードのテキスト
+ * vscode.TextDocument と同様に、行・列の位置とオフセットを相互に変換する
+ */
+export class SourceText {
+	// 各行の先頭のオフセット
+	private readonly _lineStarts: number[] = [0]
+
+	constructor(
+		readonly fileName: string,
+		readonly languageId: string,
+		readonly text: string
+	) {
+		for (const match of text.matchAll(/\r\n|\r|\n/g)) {
+			this._lineStarts.push(match.index! + match[0].length)
+		}
+	}
+
+	get lineCount(): number {
+		return this._lineStarts.length
+	}
+
+	/**
+	 * 指定した行のテキストを改行文字を除いて取得する
+	 */
+	lineAt(line: number): string {
+		const start = this._lineStarts[line]
+		const end =
+			line + 1 < this._lineStarts.length
+				? this._lineStarts[line + 1]
+				: this.text.length
+		return this.text.slice(start, end).replace(/\r?\n$|\r$/, '')
+	}
+
+	getText(range?: TextRange): string {
+		if (!range) {
+			return this.text
+		}
+		return this.text.slice(
+			this.offsetAt(range.start),
+			this.offsetAt(range.end)
+		)
+	}
+
+	offsetAt(position: TextPosition): number {
+		const line = Math.min(Math.max(position.line, 0), this.lineCount - 1)
+		const character = Math.min(
+			Math.max(position.character, 0),
+			this.lineAt(line).length
+		)
+		return this._lineStarts[line] + character
+	}
+
+	positionAt(offset: number): TextPosition {
+		const clamped = Math.min(Math.max(offset, 0), this.text.length)
+		// offset 以下で最大の行頭を二分探索する
+		let low = 0
+		let high = this._lineStarts.length - 1
+		while (low < high) {
+			const mid = Math.ceil((low + high) / 2)
+			if (this._lineStarts[mid] <= clamped) {
+				low = mid
+			} else {
+				high = mid - 1
+			}
+		}
+		return {
+			line: low,
+			character: Math.min(
+				clamped - this._lineStarts[low],
+				this.lineAt(low).length
+			),
+		}
+	}
+
+	/**
+	 * 行範囲を、最終行の末尾までを含むテキスト範囲に変換する
+	 */
+	rangeOfLines(range: LineRange): TextRange {
+		return {
+			start: { line: range.startLine, character: 0 },
+			end: {
+				line: range.endLine,
+				character: this.lineAt(range.endLine).length,
+			},
+		}
+	}
+}
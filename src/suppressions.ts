@@ -0,0 +1,47 @@
+import { LocatedReviewItem } from './review-item'
+
+// 次の行の指摘を抑制するコメント
+export const DISABLE_NEXT_LINE = 'llm-lint-disable-next-line'
+// ファイル全体の指摘を抑制するコメント
+export const DISABLE_FILE = 'llm-lint-disable-file'
+
+// 抑制コメントとして扱うコメントの開始記号（//, #, --, /*, <!--）
+const COMMENT_LEADER = '(?://|#|--|/\\*|<!--)'
+
+// コメントの開始記号の後に、単語として書かれたキーワードに一致する正規表現
+function commentKeywordPattern(keyword: string): RegExp {
+	return new RegExp(`${COMMENT_LEADER}\\s*${keyword}(?![\\w-])`)
+}
+
+const DISABLE_NEXT_LINE_PATTERN = commentKeywordPattern(DISABLE_NEXT_LINE)
+const DISABLE_FILE_PATTERN = commentKeywordPattern(DISABLE_FILE)
+
+/**
+ * 抑制コメントが付いた指摘を取り除く
+ * コメントの書式は言語に依存しないよう、主な言語のコメントの開始記号の直後にキーワードがあるかで判定する
+ * （文字列リテラルなどに含まれるキーワードでは抑制しない）
+ * 位置を特定できなかった指摘は、ファイル全体の抑制コメントでのみ取り除く
+ */
+export function filterSuppressedFindings<T extends LocatedReviewItem>(
+	items: T[],
+	text: string
+): T[] {
+	if (!text.includes('llm-lint-disable')) {
+		return items
+	}
+	const lines = text.split(/\r\n|\r|\n/)
+	if (lines.some((line) => DISABLE_FILE_PATTERN.test(line))) {
+		return []
+	}
+
+	// 抑制コメントの次の行
+	const suppressedLines = new Set<number>()
+	lines.forEach((line, index) => {
+		if (DISABLE_NEXT_LINE_PATTERN.test(line)) {
+			suppressedLines.add(index + 1)
+		}
+	})
+	return items.filter(
+		(item) => !item.range || !suppressedLines.has(item.range.start.line)
+	)
+}
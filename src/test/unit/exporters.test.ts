@@ -0,0 +1,14 @@
+import * as assert from 'assert'
+import { codeFence } from '../../exporters'
+
+suite('exporters', () => {
+	suite('codeFence', () => {
+		test('バッククォートを含まないコードは3つのバッククォートで囲む', () => {
+			assert.strictEqual(codeFence('const a = 1'), '```')
+		})
+
+		test('コード内の最も長いバッククォートの連続より1つ長くする', () => {
+			assert.strictEqual(codeFence('const s = `a`\n````md'), '`````')
+		})
+	})
+})
@@ -0,0 +1,114 @@
+import * as assert from 'assert'
+import {
+	diffLineRanges,
+	expandLineRanges,
+	isLineInRanges,
+	parseUnifiedDiff,
+} from '../../line-ranges'
+
+suite('line-ranges', () => {
+	suite('parseUnifiedDiff', () => {
+		test('追加・変更した行を新しいファイル側の行で返す', () => {
+			const diff = [
+				'diff --git a/a.ts b/a.ts',
+				'--- a/a.ts',
+				'+++ b/a.ts',
+				'@@ -3 +3,2 @@',
+				'-old',
+				'+new',
+				'+added',
+				'@@ -10,0 +12 @@',
+				'+tail',
+			].join('\n')
+			assert.deepStrictEqual(parseUnifiedDiff(diff, 20), [
+				{ startLine: 2, endLine: 3 },
+				{ startLine: 11, endLine: 11 },
+			])
+		})
+
+		test('ファイルの先頭の行の削除は先頭の行とする', () => {
+			assert.deepStrictEqual(
+				parseUnifiedDiff('@@ -1,2 +0,0 @@\n-a\n-b\n', 10),
+				[{ startLine: 0, endLine: 0 }]
+			)
+		})
+
+		test('ファイルの途中の行の削除は削除位置の行とする', () => {
+			assert.deepStrictEqual(
+				parseUnifiedDiff('@@ -5,2 +4,0 @@\n-a\n-b\n', 10),
+				[{ startLine: 3, endLine: 3 }]
+			)
+		})
+
+		test('ファイルの末尾の行の削除は最終行とする', () => {
+			assert.deepStrictEqual(
+				parseUnifiedDiff('@@ -9,2 +8,0 @@\n-a\n-b\n', 8),
+				[{ startLine: 7, endLine: 7 }]
+			)
+		})
+	})
+
+	suite('diffLineRanges', () => {
+		const original = ['a', 'b', 'c', 'd', 'e'].join('\n')
+
+		test('変更がなければ空の配列を返す', () => {
+			assert.deepStrictEqual(diffLineRanges(original, original), [])
+		})
+
+		test('変更・追加した行を返す', () => {
+			assert.deepStrictEqual(
+				diffLineRanges(
+					original,
+					['a', 'B', 'c', 'd', 'x', 'e'].join('\n')
+				),
+				[
+					{ startLine: 1, endLine: 1 },
+					{ startLine: 4, endLine: 4 },
+				]
+			)
+		})
+
+		test('削除は削除位置の行とし、先頭・末尾はファイル内に収める', () => {
+			assert.deepStrictEqual(
+				diffLineRanges(original, ['c', 'd', 'e'].join('\n')),
+				[{ startLine: 0, endLine: 0 }]
+			)
+			assert.deepStrictEqual(
+				diffLineRanges(original, ['a', 'b', 'd', 'e'].join('\n')),
+				[{ startLine: 2, endLine: 2 }]
+			)
+			assert.deepStrictEqual(
+				diffLineRanges(original, ['a', 'b', 'c'].join('\n')),
+				[{ startLine: 2, endLine: 2 }]
+			)
+		})
+
+		test('改行コードの違いは変更としない', () => {
+			assert.deepStrictEqual(diffLineRanges('a\r\nb\r\n', 'a\nb\nc\n'), [
+				{ startLine: 2, endLine: 2 },
+			])
+		})
+	})
+
+	test('expandLineRanges は前後の行を加えて結合し、ファイル内に収める', () => {
+		assert.deepStrictEqual(
+			expandLineRanges(
+				[
+					{ startLine: 1, endLine: 1 },
+					{ startLine: 5, endLine: 6 },
+				],
+				2,
+				8
+			),
+			[{ startLine: 0, endLine: 7 }]
+		)
+	})
+
+	test('isLineInRanges は範囲の両端を含む', () => {
+		const ranges = [{ startLine: 2, endLine: 4 }]
+		assert.deepStrictEqual(
+			[1, 2, 4, 5].map((line) => isLineInRanges(line, ranges)),
+			[false, true, true, false]
+		)
+	})
+})
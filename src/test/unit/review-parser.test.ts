@@ -0,0 +1,122 @@
+import * as assert from 'assert'
+import {
+	parseReviewContent,
+	parseReviewJson,
+	parseReviewLines,
+} from '../../review-parser'
+
+suite('review-parser', () => {
+	suite('parseReviewJson', () => {
+		test('コードブロック内のJSONを読み取る', () => {
+			const items = parseReviewJson(
+				'結果です\n```json\n{"reviews": [{"severity": "warn", "message": "未使用の変数", "codeSnippet": "let x"}]}\n```'
+			)
+			assert.deepStrictEqual(items, [
+				{
+					severity: 'WARNING',
+					message: '未使用の変数',
+					rationale: undefined,
+					category: undefined,
+					codeSnippet: 'let x',
+					suggestedFix: undefined,
+				},
+			])
+		})
+
+		test('文字列の行番号を変換し、終了行がない場合は開始行とする', () => {
+			const [item] = parseReviewJson(
+				'{"reviews": [{"severity": "ERROR", "message": "m", "startLine": "12"}]}'
+			)!
+			assert.strictEqual(item.startLine, 12)
+			assert.strictEqual(item.endLine, 12)
+		})
+
+		test('1未満の行番号は行番号がないものとして扱う', () => {
+			const [item] = parseReviewJson(
+				'{"reviews": [{"severity": "ERROR", "message": "m", "startLine": 0, "endLine": 3}]}'
+			)!
+			assert.strictEqual(item.startLine, undefined)
+			assert.strictEqual(item.endLine, undefined)
+		})
+
+		test('既知の分類のみを受け付ける', () => {
+			const items = parseReviewJson(
+				'{"reviews": [{"severity": "INFO", "message": "a", "category": "Security"}, {"severity": "INFO", "message": "b", "category": "unknown"}]}'
+			)!
+			assert.deepStrictEqual(
+				items.map((item) => item.category),
+				['security', undefined]
+			)
+		})
+
+		test('JSONでない場合は null を返す', () => {
+			assert.strictEqual(parseReviewJson('[ERROR] 問題があります'), null)
+		})
+	})
+
+	suite('parseReviewLines', () => {
+		test('重要度・内容・インラインのコードを読み取る', () => {
+			assert.deepStrictEqual(
+				parseReviewLines('- **[WARN]** 比較に == を使用 `a == b`'),
+				[
+					{
+						severity: 'WARNING',
+						message: '比較に == を使用',
+						codeSnippet: 'a == b',
+					},
+				]
+			)
+		})
+
+		test('直後のコードブロックをスニペットとして読み取る', () => {
+			const [item] = parseReviewLines(
+				'ERROR: 例外が握りつぶされています\n```\ncatch (e) {}\n```'
+			)
+			assert.strictEqual(item.codeSnippet, 'catch (e) {}')
+		})
+
+		test('L開始行-終了行を行番号として読み取る', () => {
+			const [item] = parseReviewLines('[INFO] L3-L4: 命名が不明瞭')
+			assert.strictEqual(item.startLine, 3)
+			assert.strictEqual(item.endLine, 4)
+			assert.strictEqual(item.message, '命名が不明瞭')
+		})
+
+		test('1未満の行番号を含む範囲は行番号がないものとして扱う', () => {
+			const items = parseReviewLines(
+				'[ERROR] L0: 行番号が0\n[WARNING] L5-L0: 終了行が0'
+			)
+			assert.deepStrictEqual(
+				items.map((item) => [
+					item.message,
+					item.startLine,
+					item.endLine,
+				]),
+				[
+					['行番号が0', undefined, undefined],
+					['終了行が0', undefined, undefined],
+				]
+			)
+		})
+
+		test('重要度のない行は無視する', () => {
+			assert.deepStrictEqual(parseReviewLines('指摘なし'), [])
+		})
+	})
+
+	suite('parseReviewContent', () => {
+		test('思考過程を除いてからJSONを読み取る', () => {
+			const items = parseReviewContent(
+				'<think>{"reviews": []}</think>{"reviews": [{"severity": "HINT", "message": "m"}]}'
+			)
+			assert.strictEqual(items.length, 1)
+			assert.strictEqual(items[0].severity, 'HINT')
+		})
+
+		test('JSONを読み取れない場合はテキスト形式として解析する', () => {
+			const items = parseReviewContent('[ERROR] null の参照 `obj.value`')
+			assert.strictEqual(items.length, 1)
+			assert.strictEqual(items[0].codeSnippet, 'obj.value')
+		})
+	})
+})
@@ -0,0 +1,95 @@
+import * as assert from 'assert'
+import { locateCodeSnippet } from '../../snippet-locator'
+import { SourceText } from '../../source-text'
+
+function source(lines: string[]): SourceText {
+	return new SourceText('test.ts', 'typescript', lines.join('\n'))
+}
+
+suite('snippet-locator', () => {
+	const code = source([
+		'function load(path: string) {',
+		"\tconst text = readFileSync(path, 'utf8');",
+		'\treturn JSON.parse(text)',
+		'}',
+	])
+
+	test('空白・引用符・セミコロンの違いを無視して完全に一致させる', () => {
+		const match = locateCodeSnippet(
+			'const text = readFileSync(path, "utf8")',
+			code
+		)
+		assert.deepStrictEqual(match, {
+			range: {
+				start: { line: 1, character: 1 },
+				end: { line: 1, character: 40 },
+			},
+			score: 1,
+		})
+	})
+
+	test('末尾のセミコロンはスニペットとコードの両方にある場合のみ範囲に含める', () => {
+		const match = locateCodeSnippet(
+			"const text = readFileSync(path, 'utf8');",
+			code
+		)
+		assert.deepStrictEqual(match?.range.end, { line: 1, character: 41 })
+	})
+
+	test('一部のトークンの違いを許容し、一致度を下げる', () => {
+		const match = locateCodeSnippet('return JSON.parse(content)', code)
+		assert.strictEqual(match?.range.start.line, 2)
+		assert.ok(match!.score < 1 && match!.score >= 0.6)
+	})
+
+	test('短いスニペットは完全一致のみとする', () => {
+		assert.strictEqual(locateCodeSnippet('(file', code), null)
+	})
+
+	test('空のスニペットや見つからないスニペットは null を返す', () => {
+		assert.strictEqual(locateCodeSnippet('  ', code), null)
+		assert.strictEqual(
+			locateCodeSnippet(
+				'fetch(url).then(response => response.json())',
+				code
+			),
+			null
+		)
+	})
+
+	test('複数の箇所に一致する場合は、指摘内容の識別子が周辺にある箇所を選ぶ', () => {
+		const duplicated = source([
+			'function first() {',
+			'\tcount += 1',
+			'}',
+			'',
+			'',
+			'function second() {',
+			'\tcount += 1',
+			'}',
+		])
+		const match = locateCodeSnippet(
+			'count += 1',
+			duplicated,
+			undefined,
+			'`second` で count を更新しています'
+		)
+		assert.strictEqual(match?.range.start.line, 6)
+		assert.strictEqual(match?.score, 1)
+	})
+
+	test('絞り込めない場合は一致度を下げる', () => {
+		const duplicated = source(['a = b + c', 'a = b + c'])
+		const match = locateCodeSnippet('a = b + c', duplicated)
+		assert.strictEqual(match?.range.start.line, 0)
+		assert.strictEqual(match?.score, 0.75)
+	})
+
+	test('検索範囲内で見つからなければソースコード全体を検索する', () => {
+		const match = locateCodeSnippet('return JSON.parse(text)', code, {
+			start: { line: 0, character: 0 },
+			end: { line: 1, character: 0 },
+		})
+		assert.strictEqual(match?.range.start.line, 2)
+	})
+})
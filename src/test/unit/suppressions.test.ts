@@ -0,0 +1,70 @@
+import * as assert from 'assert'
+import { LocatedReviewItem } from '../../review-item'
+import { filterSuppressedFindings } from '../../suppressions'
+
+function itemAt(line: number | undefined): LocatedReviewItem {
+	const message = `line ${line}`
+	return {
+		severity: 'WARNING',
+		message,
+		raw: { severity: 'WARNING', message },
+		range:
+			line === undefined
+				? undefined
+				: {
+						start: { line, character: 0 },
+						end: { line, character: 1 },
+				  },
+	}
+}
+
+suite('suppressions', () => {
+	suite('filterSuppressedFindings', () => {
+		test('コメントの次の行の指摘のみを取り除く', () => {
+			const text = ['// llm-lint-disable-next-line', 'a()', 'b()'].join(
+				'\n'
+			)
+			const items = [itemAt(1), itemAt(2), itemAt(undefined)]
+			assert.deepStrictEqual(filterSuppressedFindings(items, text), [
+				items[1],
+				items[2],
+			])
+		})
+
+		test('言語ごとのコメントの開始記号を認識する', () => {
+			for (const comment of [
+				'# llm-lint-disable-file',
+				'-- llm-lint-disable-file',
+				'/* llm-lint-disable-file */',
+				'<!-- llm-lint-disable-file -->',
+				'x = 1 //llm-lint-disable-file',
+			]) {
+				assert.deepStrictEqual(
+					filterSuppressedFindings([itemAt(undefined)], comment),
+					[],
+					comment
+				)
+			}
+		})
+
+		test('文字列リテラル内のキーワードでは抑制しない', () => {
+			const text = [
+				"const DISABLE_FILE = 'llm-lint-disable-file'",
+				'print("llm-lint-disable-next-line")',
+				'a()',
+			].join('\n')
+			const items = [itemAt(1), itemAt(2)]
+			assert.deepStrictEqual(filterSuppressedFindings(items, text), items)
+		})
+
+		test('キーワードを含む別の単語では抑制しない', () => {
+			const text = [
+				'// llm-lint-disable-file-header',
+				'// llm-lint-disable-next-lines',
+				'a()',
+			].join('\n')
+			const items = [itemAt(1), itemAt(2)]
+			assert.deepStrictEqual(filterSuppressedFindings(items, text), items)
+		})
+	})
+})